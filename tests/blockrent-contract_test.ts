@@ -1,6 +1,76 @@
 
 import { Clarinet, Tx, Chain, Account, types } from 'https://deno.land/x/clarinet@v0.14.0/index.ts';
-import { assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+import { assert, assertEquals } from 'https://deno.land/std@0.90.0/testing/asserts.ts';
+
+// Error codes returned by blockrent-contract
+const ERR_PROPERTY_NOT_FOUND = 100;
+const ERR_LEASE_NOT_FOUND = 101;
+const ERR_NOT_PROPERTY_OWNER = 102;
+const ERR_NOT_TENANT = 103;
+const ERR_NOT_LEASE_PARTY = 104;
+const ERR_PROPERTY_UNAVAILABLE = 105;
+const ERR_INVALID_START_DATE = 106;
+const ERR_INVALID_DATE_RANGE = 107;
+const ERR_LEASE_NOT_PENDING = 108;
+const ERR_LEASE_NOT_ACTIVE = 109;
+const ERR_LEASE_NOT_ENDED = 110;
+const ERR_PROPOSAL_EXPIRED = 111;
+const ERR_INVALID_AMOUNT = 112;
+const ERR_TRANSFER_FAILED = 113;
+const ERR_NOT_ADMIN = 114;
+const ERR_INVALID_FEE_RATE = 115;
+const ERR_INSUFFICIENT_TREASURY = 116;
+const ERR_CONTRACT_PAUSED = 117;
+const ERR_DISPUTE_EXISTS = 118;
+const ERR_DISPUTE_NOT_FOUND = 119;
+const ERR_DISPUTE_NOT_OPEN = 120;
+const ERR_ESCROW_FROZEN = 121;
+const ERR_NOT_ARBITRATOR = 122;
+const ERR_INVALID_ARBITRATOR = 123;
+const ERR_DISPUTE_TIMED_OUT = 124;
+const ERR_DISPUTE_NOT_TIMED_OUT = 125;
+const ERR_DEPOSIT_HELD = 126;
+const ERR_DEDUCTION_WINDOW_CLOSED = 127;
+const ERR_RESPONSE_WINDOW_CLOSED = 128;
+const ERR_DEDUCTIONS_SETTLED = 129;
+const ERR_TOO_MANY_DEDUCTIONS = 130;
+const ERR_NO_DEDUCTIONS = 131;
+const ERR_RENEWAL_NOT_FOUND = 132;
+const ERR_RENT_INCREASE_TOO_HIGH = 133;
+const ERR_TOO_MANY_RENEWALS = 134;
+const ERR_INVALID_SHARES = 135;
+const ERR_ALREADY_ACCEPTED = 136;
+const ERR_WRONG_PAYMENT_TOKEN = 137;
+const ERR_TRANSFER_NOT_APPROVED = 138;
+const ERR_ALREADY_TENANT = 139;
+const ERR_PROPERTY_DELISTED = 140;
+const ERR_INVALID_OWNER = 141;
+const ERR_DEPOSIT_TOO_HIGH = 142;
+const ERR_INVALID_ADDRESS = 143;
+const ERR_LISTING_LIMIT = 144;
+const ERR_NOTICE_REQUIRED = 145;
+const ERR_NOTICE_GIVEN = 146;
+const ERR_INVALID_REASON = 147;
+const ERR_INVALID_PERMISSIONS = 148;
+const ERR_INVALID_MANAGER = 149;
+const ERR_MANAGER_NOT_FOUND = 150;
+const ERR_NO_ALLOWANCE = 151;
+const ERR_RENT_NOT_DUE = 152;
+const ERR_INVALID_VAULT = 153;
+const ERR_DEPOSIT_IN_VAULT = 154;
+const ERR_DEPOSIT_NOT_IN_VAULT = 155;
+const ERR_TENANT_SCORE_TOO_LOW = 157;
+const ERR_INVALID_RATING = 158;
+const ERR_ALREADY_RATED = 159;
+const ERR_TOKEN_NOT_APPROVED = 160;
+
+// Termination reason codes
+const REASON_UNSPECIFIED = 0;
+const REASON_LEASE_EXPIRED = 1;
+const REASON_NON_PAYMENT = 2;
+const REASON_OWNER_MOVE_IN = 4;
+const REASON_PROPERTY_SALE = 5;
+const REASON_RELOCATION = 7;
 
 // Helper functions for test data
 const createTestProperty = (deployer: Account, address: string, rent: number, deposit: number, description: string) => {
@@ -11,7 +81,8 @@ const createTestProperty = (deployer: Account, address: string, rent: number, de
             types.ascii(address),
             types.uint(rent),
             types.uint(deposit),
-            types.ascii(description)
+            types.ascii(description),
+            types.none()
         ],
         deployer.address
     );
@@ -31,6 +102,28 @@ const createTestLease = (deployer: Account, propertyId: number, tenant: string,
     );
 };
 
+const getStxBalance = (chain: Chain, address: string): number => {
+    return chain.getAssetsMaps().assets['STX'][address] ?? 0;
+};
+
+const contractPrincipal = (deployer: Account) => `${deployer.address}.blockrent-contract`;
+
+const acceptTestLease = (tenant: Account, leaseId: number) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'accept-lease',
+        [types.uint(leaseId)],
+        tenant.address
+    );
+};
+
+// Blocks after a lease closes before the tenant's refund is released (deduction filing plus response windows)
+const DEPOSIT_HOLD_BLOCKS = 2016;
+
+// Blocks before a notice to end a lease takes effect, by default and at the shortest the admin may set
+const NOTICE_PERIOD_BLOCKS = 4320;
+const MIN_NOTICE_PERIOD_BLOCKS = 1008;
+
 // Test Suite 1: Property Registration and Management
 Clarinet.test({
     name: "Property registration creates new property with correct details",
@@ -157,7 +250,7 @@ Clarinet.test({
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Unauthorized or property not available"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
     },
 });
 
@@ -177,8 +270,8 @@ Clarinet.test({
         assertEquals(block.receipts[0].result.expectOk(), types.uint(1));
 
         // Create a lease
-        const startDate = 1625097600; // July 1, 2021
-        const endDate = 1656633600;   // July 1, 2022
+        const startDate = 1625097600; // block height
+        const endDate = 1656633600;   // block height
         
         block = chain.mineBlock([
             createTestLease(deployer, 1, tenant.address, startDate, endDate)
@@ -198,6 +291,19 @@ Clarinet.test({
         assertEquals(leaseRent.result.expectSome(), types.uint(1500));
 
         let leaseStatus = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(leaseStatus.result.expectSome(), types.ascii("pending"));
+
+        // Tenant accepts and the lease becomes active
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 1)
+        ]);
+
+        assertEquals(block.receipts.length, 1);
+        const accepted = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(accepted['deposit'], types.uint(3000));
+        assertEquals(accepted['status'], types.ascii("active"));
+
+        leaseStatus = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
         assertEquals(leaseStatus.result.expectSome(), types.ascii("active"));
 
         // Verify property is no longer available
@@ -231,7 +337,7 @@ Clarinet.test({
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Invalid lease creation parameters"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_INVALID_DATE_RANGE));
 
         // Test unauthorized lease creation
         block = chain.mineBlock([
@@ -239,7 +345,7 @@ Clarinet.test({
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Invalid lease creation parameters"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
 
         // Test lease on non-existent property
         block = chain.mineBlock([
@@ -247,7 +353,7 @@ Clarinet.test({
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Property not found"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_PROPERTY_NOT_FOUND));
 
         // Create valid lease first
         block = chain.mineBlock([
@@ -263,7 +369,7 @@ Clarinet.test({
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Invalid lease creation parameters"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_PROPERTY_UNAVAILABLE));
     },
 });
 
@@ -294,6 +400,13 @@ Clarinet.test({
         assertEquals(block.receipts[0].result.expectOk(), types.uint(1));
         assertEquals(block.receipts[1].result.expectOk(), types.uint(2));
 
+        block = chain.mineBlock([
+            acceptTestLease(tenant1, 1),
+            acceptTestLease(tenant2, 2)
+        ]);
+
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
         // Verify both leases are active
         let lease1Status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
         assertEquals(lease1Status.result.expectSome(), types.ascii("active"));
@@ -329,31 +442,33 @@ Clarinet.test({
         assertEquals(block.receipts.length, 1);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
-        assertEquals(block.receipts.length, 1);
+        assertEquals(block.receipts.length, 2);
         assertEquals(block.receipts[0].result.expectOk(), types.uint(1));
+        block.receipts[1].result.expectOk();
 
         // Test unauthorized emergency termination
         block = chain.mineBlock([
             Tx.contractCall(
                 'blockrent-contract',
                 'emergency-terminate',
-                [types.uint(1)],
+                [types.uint(1), types.uint(REASON_UNSPECIFIED)],
                 unauthorized.address
             )
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Unauthorized emergency termination"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
 
         // Test authorized emergency termination
         block = chain.mineBlock([
             Tx.contractCall(
                 'blockrent-contract',
                 'emergency-terminate',
-                [types.uint(1)],
+                [types.uint(1), types.uint(REASON_UNSPECIFIED)],
                 deployer.address
             )
         ]);
@@ -384,10 +499,12 @@ Clarinet.test({
         ]);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         assertEquals(block.receipts[0].result.expectOk(), types.uint(1));
+        block.receipts[1].result.expectOk();
 
         // Pay rent
         block = chain.mineBlock([
@@ -413,9 +530,9 @@ Clarinet.test({
         assertEquals(escrowFee, types.uint(3));
         assertEquals(netAmount, types.uint(1497));
 
-        // Verify escrow balance updated
+        // Verify escrow balance updated (security deposit plus rent net of the escrow fee)
         let escrowBalance = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(1)], deployer.address);
-        assertEquals(escrowBalance.result.expectSome(), types.uint(1500));
+        assertEquals(escrowBalance.result.expectSome(), types.uint(4497));
     },
 });
 
@@ -431,7 +548,8 @@ Clarinet.test({
         ]);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         // Try to pay insufficient rent
@@ -441,14 +559,14 @@ Clarinet.test({
                 'pay-rent',
                 [
                     types.uint(1),
-                    types.uint(1000) // Less than required 1500
+                    types.uint(0) // Nothing to credit
                 ],
                 tenant.address
             )
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Insufficient payment amount"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_INVALID_AMOUNT));
     },
 });
 
@@ -465,7 +583,8 @@ Clarinet.test({
         ]);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         // Try unauthorized payment
@@ -482,7 +601,7 @@ Clarinet.test({
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Invalid rent payment"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_TENANT));
     },
 });
 
@@ -499,7 +618,8 @@ Clarinet.test({
         ]);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         // Process late fees
@@ -517,9 +637,9 @@ Clarinet.test({
         const lateFees = result.expectTuple()['late-fees'] as any;
         const status = result.expectTuple()['status'] as any;
         
-        // Since no payment has been made yet, late fees should be calculated
+        // The lease has not started yet, so no rent is overdue
         assertEquals(status, types.ascii("active"));
-        // Late fees should be greater than 0 due to time difference
+        assertEquals(lateFees, types.uint(0));
         
         // Verify lease status is still active
         let leaseStatus = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
@@ -540,7 +660,8 @@ Clarinet.test({
         ]);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         // Pay some rent to create escrow balance
@@ -556,6 +677,15 @@ Clarinet.test({
             )
         ]);
 
+        // Before the end date the owner must serve notice and wait for it to take effect
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'give-notice', [types.uint(1), types.uint(REASON_OWNER_MOVE_IN)], deployer.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOTICE_REQUIRED));
+        block.receipts[1].result.expectOk();
+        chain.mineEmptyBlock(NOTICE_PERIOD_BLOCKS);
+
         // End lease as property owner
         block = chain.mineBlock([
             Tx.contractCall(
@@ -581,6 +711,32 @@ Clarinet.test({
     },
 });
 
+Clarinet.test({
+    name: "Lease proposals cannot be accepted once the lease has started",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        // Starts well inside the usual acceptance window, so the proposal expires at the start instead
+        const startDate = chain.blockHeight + 100;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640)
+        ]);
+        block.receipts[1].result.expectOk();
+
+        const expiry = chain.callReadOnlyFn('blockrent-contract', 'get-lease-proposal-expiry', [types.uint(1)], deployer.address);
+        assertEquals(expiry.result.expectSome(), types.uint(startDate));
+
+        chain.mineEmptyBlockUntil(startDate + 10 * BLOCKS_PER_DAY);
+        block = chain.mineBlock([acceptTestLease(tenant, 1)]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_PROPOSAL_EXPIRED));
+
+        const status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(status.result.expectSome(), types.ascii("pending"));
+    },
+});
+
 Clarinet.test({
     name: "Lease ending works correctly for tenant",
     async fn(chain: Chain, accounts: Map<string, Account>) {
@@ -593,7 +749,8 @@ Clarinet.test({
         ]);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         // End lease as tenant
@@ -628,7 +785,8 @@ Clarinet.test({
         ]);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         // Try unauthorized lease ending
@@ -642,7 +800,7 @@ Clarinet.test({
         ]);
 
         assertEquals(block.receipts.length, 1);
-        assertEquals(block.receipts[0].result.expectErr(), types.ascii("Invalid lease end request"));
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_LEASE_PARTY));
     },
 });
 
@@ -658,7 +816,8 @@ Clarinet.test({
         ]);
 
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         // Pay rent to create escrow
@@ -680,7 +839,7 @@ Clarinet.test({
                 'blockrent-contract',
                 'end-lease',
                 [types.uint(1)],
-                deployer.address
+                tenant.address
             )
         ]);
 
@@ -733,6 +892,14 @@ Clarinet.test({
 
         assertEquals(block.receipts.length, 3);
 
+        block = chain.mineBlock([
+            acceptTestLease(tenant1, 1),
+            acceptTestLease(tenant2, 2),
+            acceptTestLease(tenant1, 3)
+        ]);
+
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
         // Pay rent for multiple leases
         block = chain.mineBlock([
             Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(1500)], tenant1.address),
@@ -793,10 +960,12 @@ Clarinet.test({
 
         // 3. Create lease
         block = chain.mineBlock([
-            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
         ]);
 
         assertEquals(block.receipts[0].result.expectOk(), types.uint(1));
+        block.receipts[1].result.expectOk();
 
         // 4. Pay rent multiple times
         block = chain.mineBlock([
@@ -820,7 +989,7 @@ Clarinet.test({
 
         // 6. End lease
         block = chain.mineBlock([
-            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address)
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address)
         ]);
 
         block.receipts[0].result.expectOk();
@@ -875,3 +1044,4835 @@ Clarinet.test({
         assertEquals(leaseCount.result, types.uint(0));
     },
 });
+
+// Test Suite 7: STX Custody
+Clarinet.test({
+    name: "Rent payment moves STX from tenant into contract custody",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const contract = contractPrincipal(deployer);
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+        ]);
+
+        block = chain.mineBlock([
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
+        ]);
+
+        const tenantBefore = getStxBalance(chain, tenant.address);
+        const contractBefore = getStxBalance(chain, contract);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(1500)], tenant.address)
+        ]);
+
+        block.receipts[0].result.expectOk();
+        const transfers = block.receipts[0].events.filter((event: any) => event.type === "stx_transfer_event");
+        assertEquals(transfers.length, 1);
+        assertEquals(getStxBalance(chain, tenant.address), tenantBefore - 1500);
+        assertEquals(getStxBalance(chain, contract), contractBefore + 1500);
+    },
+});
+
+Clarinet.test({
+    name: "Rent payment fails when tenant cannot cover the transfer",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const contract = contractPrincipal(deployer);
+        const monthlyRent = getStxBalance(chain, tenant.address);
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", monthlyRent, 3000, "Test property"),
+        ]);
+
+        block = chain.mineBlock([
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
+        ]);
+
+        // After funding the deposit the tenant can no longer cover a full month
+        const tenantBalance = getStxBalance(chain, tenant.address);
+        assertEquals(tenantBalance, monthlyRent - 3000);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(monthlyRent)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_TRANSFER_FAILED));
+        assertEquals(getStxBalance(chain, tenant.address), tenantBalance);
+        assertEquals(getStxBalance(chain, contract), 3000);
+
+        let escrowBalance = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(1)], deployer.address);
+        assertEquals(escrowBalance.result.expectSome(), types.uint(3000));
+    },
+});
+
+Clarinet.test({
+    name: "Ending a lease makes the escrow claimable by each party",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const contract = contractPrincipal(deployer);
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+        ]);
+
+        // Lease already running, two 30-day billing periods long
+        const startDate = chain.blockHeight + 1;
+        block = chain.mineBlock([
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1)
+        ]);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(1500)], tenant.address)
+        ]);
+
+        const tenantBefore = getStxBalance(chain, tenant.address);
+        const ownerBefore = getStxBalance(chain, deployer.address);
+        assertEquals(getStxBalance(chain, contract), 4500);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address)
+        ]);
+
+        // Tenant is owed the deposit back; the owner keeps the rent net of the escrow fee
+        const result = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(result['tenant-return'], types.uint(3000));
+        assertEquals(result['owner-amount'], types.uint(1497));
+
+        // Nothing moves until each party claims
+        assertEquals(getStxBalance(chain, tenant.address), tenantBefore);
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore);
+        assertEquals(getStxBalance(chain, contract), 4500);
+
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(3000));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(1497));
+
+        // The escrow fee stays behind in the treasury
+        assertEquals(getStxBalance(chain, tenant.address), tenantBefore + 3000);
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore + 1497);
+        assertEquals(getStxBalance(chain, contract), 3);
+
+        let escrowBalance = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(1)], deployer.address);
+        assertEquals(escrowBalance.result.expectSome(), types.uint(0));
+    },
+});
+
+Clarinet.test({
+    name: "Escrow withdrawal after emergency termination pays the owner",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const contract = contractPrincipal(deployer);
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+        ]);
+
+        const startDate = chain.blockHeight + 1;
+        block = chain.mineBlock([
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1)
+        ]);
+
+        // Pays the current period and prepays the next
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(1500)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(1500)], tenant.address)
+        ]);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_UNSPECIFIED)], deployer.address)
+        ]);
+
+        const tenantBefore = getStxBalance(chain, tenant.address);
+        const ownerBefore = getStxBalance(chain, deployer.address);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        // The prepaid period, deposit and the owner's one-month penalty stay reserved for the tenant
+        const result = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(result['withdrawn'], types.uint(1494));
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore + 1494);
+        assertEquals(getStxBalance(chain, tenant.address), tenantBefore);
+        assertEquals(getStxBalance(chain, contract), 6 + 4500 + 1500);
+
+        // A second withdrawal has nothing left to move
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(0));
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore + 1494);
+    },
+});
+
+// Test Suite 8: Lease Proposals and Tenant Acceptance
+Clarinet.test({
+    name: "Tenant acceptance funds the security deposit and activates the lease",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const contract = contractPrincipal(deployer);
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+        ]);
+
+        // Rent cannot be paid on a proposal that has not been accepted
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(1500)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_LEASE_NOT_ACTIVE));
+
+        const tenantBefore = getStxBalance(chain, tenant.address);
+
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 1)
+        ]);
+
+        block.receipts[0].result.expectOk();
+        assertEquals(getStxBalance(chain, tenant.address), tenantBefore - 3000);
+        assertEquals(getStxBalance(chain, contract), 3000);
+
+        let escrowBalance = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(1)], deployer.address);
+        assertEquals(escrowBalance.result.expectSome(), types.uint(3000));
+
+        let leaseDeposit = chain.callReadOnlyFn('blockrent-contract', 'get-lease-deposit', [types.uint(1)], deployer.address);
+        assertEquals(leaseDeposit.result.expectSome(), types.uint(3000));
+
+        // A lease can only be accepted once
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 1)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_LEASE_NOT_PENDING));
+    },
+});
+
+Clarinet.test({
+    name: "Only the named tenant can accept a lease proposal",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const unauthorized = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+        ]);
+
+        block = chain.mineBlock([
+            acceptTestLease(unauthorized, 1),
+            acceptTestLease(deployer, 1),
+            acceptTestLease(tenant, 999)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_LEASE_NOT_FOUND));
+
+        let leaseStatus = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(leaseStatus.result.expectSome(), types.ascii("pending"));
+    },
+});
+
+Clarinet.test({
+    name: "Expired lease proposals cannot be accepted and can be cleared by anyone",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const bystander = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+        ]);
+
+        // Before expiry only the parties to the lease may cancel
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], bystander.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_LEASE_PARTY));
+
+        chain.mineEmptyBlock(1008);
+
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 1)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_PROPOSAL_EXPIRED));
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], bystander.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk(), types.ascii("Lease proposal cancelled"));
+
+        let leaseStatus = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(leaseStatus.result.expectSome(), types.ascii("cancelled"));
+
+        let propertyAvailable = chain.callReadOnlyFn('blockrent-contract', 'get-property-available', [types.uint(1)], deployer.address);
+        assertEquals(propertyAvailable.result.expectSome(), types.bool(true));
+    },
+});
+
+Clarinet.test({
+    name: "Owner can cancel an unaccepted proposal and relist the property",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const newTenant = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600)
+        ]);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk(), types.ascii("Lease proposal cancelled"));
+
+        // The cancelled proposal can no longer be accepted or cancelled again
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 1),
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], deployer.address),
+            createTestLease(deployer, 1, newTenant.address, 1625097600, 1656633600)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_LEASE_NOT_PENDING));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_LEASE_NOT_PENDING));
+        assertEquals(block.receipts[2].result.expectOk(), types.uint(2));
+    },
+});
+
+Clarinet.test({
+    name: "Active leases cannot be cancelled as proposals",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
+        ]);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_LEASE_NOT_PENDING));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_LEASE_NOT_PENDING));
+
+        let propertyAvailable = chain.callReadOnlyFn('blockrent-contract', 'get-property-available', [types.uint(1)], deployer.address);
+        assertEquals(propertyAvailable.result.expectSome(), types.bool(false));
+    },
+});
+
+// Test Suite 9: Block-Height Clock
+const BLOCKS_PER_DAY = 144;
+
+const setupStartedLease = (chain: Chain, deployer: Account, tenant: Account) => {
+    let block = chain.mineBlock([
+        createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+    ]);
+    const startDate = block.height + 10;
+
+    block = chain.mineBlock([
+        createTestLease(deployer, 1, tenant.address, startDate, startDate + 365 * BLOCKS_PER_DAY),
+        acceptTestLease(tenant, 1)
+    ]);
+    block.receipts[1].result.expectOk();
+
+    return startDate;
+};
+
+const processLateFees = (chain: Chain, caller: Account) => {
+    const block = chain.mineBlock([
+        Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(1)], caller.address)
+    ]);
+    return block.receipts[0].result.expectOk().expectTuple();
+};
+
+Clarinet.test({
+    name: "Late fees accrue per day of chain time after rent falls due",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        // Not yet overdue before the first full day has passed
+        chain.mineEmptyBlockUntil(startDate + BLOCKS_PER_DAY / 2);
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(0));
+
+        // 0.5% of 1500 is 7 per day (rounded down); 5 full days overdue
+        chain.mineEmptyBlockUntil(startDate + 5 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        let result = processLateFees(chain, deployer);
+        assertEquals(result['late-fees'], types.uint(35));
+        assertEquals(result['status'], types.ascii("active"));
+
+        let lateFees = chain.callReadOnlyFn('blockrent-contract', 'get-lease-late-fees', [types.uint(1)], deployer.address);
+        assertEquals(lateFees.result.expectSome(), types.uint(35));
+
+        let daysOverdue = chain.callReadOnlyFn('blockrent-contract', 'get-lease-days-overdue', [types.uint(1)], deployer.address);
+        assertEquals(daysOverdue.result, types.uint(5));
+    },
+});
+
+Clarinet.test({
+    name: "Rent payment records block height and covers the current billing period",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        chain.mineEmptyBlockUntil(startDate + 2 * BLOCKS_PER_DAY);
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(1500)], tenant.address)
+        ]);
+        block.receipts[0].result.expectOk();
+
+        const dates = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dates', [types.uint(1)], deployer.address)
+            .result.expectSome().expectTuple();
+        const lastPayment = Number(dates['last-payment'].substring(1));
+        assert(lastPayment >= startDate + 2 * BLOCKS_PER_DAY);
+        assertEquals(dates['rent-due-date'], types.uint(startDate + 30 * BLOCKS_PER_DAY));
+
+        // Still inside the paid period
+        chain.mineEmptyBlockUntil(startDate + 29 * BLOCKS_PER_DAY);
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(0));
+
+        // Three full days past the second period's due date
+        chain.mineEmptyBlockUntil(startDate + 33 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(21));
+    },
+});
+
+Clarinet.test({
+    name: "Lease terminates once rent is more than MAX-LATE-DAYS overdue",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        // Exactly 30 days overdue is still within the limit
+        chain.mineEmptyBlockUntil(startDate + 30 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        let result = processLateFees(chain, deployer);
+        assertEquals(result['late-fees'], types.uint(210));
+        assertEquals(result['status'], types.ascii("active"));
+
+        // Day 31 crosses the threshold
+        chain.mineEmptyBlockUntil(startDate + 31 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        result = processLateFees(chain, deployer);
+        assertEquals(result['late-fees'], types.uint(217));
+        assertEquals(result['status'], types.ascii("terminated"));
+
+        let leaseStatus = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(leaseStatus.result.expectSome(), types.ascii("terminated"));
+    },
+});
+
+Clarinet.test({
+    name: "Late fees already paid are not charged again",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        chain.mineEmptyBlockUntil(startDate + 5 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(35));
+
+        // The payment clears the fees first; the rest goes to rent, which stays overdue
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(1), types.uint(40)], tenant.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(0));
+
+        // Only the two days since the last assessment are added
+        chain.mineEmptyBlockUntil(startDate + 7 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(14));
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(14));
+    },
+});
+
+// Test Suite 10: Payment Ledger
+const payRent = (tenant: Account, leaseId: number, amount: number) => {
+    return Tx.contractCall('blockrent-contract', 'pay-rent', [types.uint(leaseId), types.uint(amount)], tenant.address);
+};
+
+Clarinet.test({
+    name: "Payments on different leases get distinct global IDs",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant1 = accounts.get('wallet_1')!;
+        const tenant2 = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Property 1"),
+            createTestProperty(deployer, "456 Oak Ave", 2000, 4000, "Property 2"),
+            createTestLease(deployer, 1, tenant1.address, 1625097600, 1656633600),
+            createTestLease(deployer, 2, tenant2.address, 1625097600, 1656633600),
+            acceptTestLease(tenant1, 1),
+            acceptTestLease(tenant2, 2)
+        ]);
+
+        block = chain.mineBlock([
+            payRent(tenant1, 1, 1500),
+            payRent(tenant2, 2, 2000),
+            payRent(tenant1, 1, 1500)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['payment-id'], types.uint(1));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['payment-id'], types.uint(2));
+        assertEquals(block.receipts[2].result.expectOk().expectTuple()['payment-id'], types.uint(3));
+
+        let paymentCount = chain.callReadOnlyFn('blockrent-contract', 'get-payment-count', [], deployer.address);
+        assertEquals(paymentCount.result, types.uint(3));
+
+        let lease1Count = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment-count', [types.uint(1)], deployer.address);
+        assertEquals(lease1Count.result, types.uint(2));
+
+        let lease2Count = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment-count', [types.uint(2)], deployer.address);
+        assertEquals(lease2Count.result, types.uint(1));
+
+        // Lease 2's first payment no longer collides with lease 1's
+        let payment = chain.callReadOnlyFn('blockrent-contract', 'get-rent-payment', [types.uint(2)], deployer.address);
+        let record = payment.result.expectSome().expectTuple();
+        assertEquals(record['lease-id'], types.uint(2));
+        assertEquals(record['sequence'], types.uint(1));
+        assertEquals(record['amount'], types.uint(1995));
+        assertEquals(record['escrow-fee'], types.uint(5));
+
+        payment = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment', [types.uint(1), types.uint(2)], deployer.address);
+        record = payment.result.expectSome().expectTuple();
+        assertEquals(record['lease-id'], types.uint(1));
+        assertEquals(record['sequence'], types.uint(2));
+
+        payment = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment', [types.uint(2), types.uint(2)], deployer.address);
+        assertEquals(payment.result, types.none());
+    },
+});
+
+Clarinet.test({
+    name: "Payment records capture fees cleared, period covered and block height",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        chain.mineEmptyBlockUntil(startDate + 5 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        processLateFees(chain, deployer);
+
+        let block = chain.mineBlock([
+            payRent(tenant, 1, 1500)
+        ]);
+        block.receipts[0].result.expectOk();
+
+        const record = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment', [types.uint(1), types.uint(1)], deployer.address)
+            .result.expectSome().expectTuple();
+        const paidAt = Number(record['block-height'].substring(1));
+
+        assertEquals(record['amount'], types.uint(1497));
+        assertEquals(record['escrow-fee'], types.uint(3));
+        assertEquals(record['late-fees-cleared'], types.uint(35));
+        assertEquals(record['period-start'], types.uint(startDate));
+        assertEquals(record['period-end'], types.uint(startDate + 30 * BLOCKS_PER_DAY));
+        assert(paidAt >= startDate + 5 * BLOCKS_PER_DAY);
+    },
+});
+
+Clarinet.test({
+    name: "Lease payment history can be paged through",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 1625097600, 1656633600),
+            acceptTestLease(tenant, 1)
+        ]);
+
+        block = chain.mineBlock(Array.from({ length: 12 }, () => payRent(tenant, 1, 1500)));
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        let page = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payments', [types.uint(1), types.uint(0)], deployer.address);
+        let payments = page.result.expectList();
+        assertEquals(payments.length, 10);
+        assertEquals(payments[0].expectTuple()['sequence'], types.uint(1));
+        assertEquals(payments[9].expectTuple()['sequence'], types.uint(10));
+
+        page = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payments', [types.uint(1), types.uint(10)], deployer.address);
+        payments = page.result.expectList();
+        assertEquals(payments.length, 2);
+        assertEquals(payments[0].expectTuple()['sequence'], types.uint(11));
+        assertEquals(payments[1].expectTuple()['sequence'], types.uint(12));
+
+        page = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payments', [types.uint(1), types.uint(12)], deployer.address);
+        assertEquals(page.result.expectList().length, 0);
+
+        page = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payments', [types.uint(999), types.uint(0)], deployer.address);
+        assertEquals(page.result.expectList().length, 0);
+    },
+});
+
+// Test Suite 11: Rent Schedule
+const getAmountDue = (chain: Chain, caller: Account) => {
+    return chain.callReadOnlyFn('blockrent-contract', 'get-amount-due', [types.uint(1)], caller.address)
+        .result.expectSome().expectTuple();
+};
+
+Clarinet.test({
+    name: "Amount due is broken down into current rent, arrears and late fees",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        // Nothing is due before the lease starts
+        let due = getAmountDue(chain, deployer);
+        assertEquals(due['rent'], types.uint(0));
+        assertEquals(due['total'], types.uint(0));
+
+        chain.mineEmptyBlockUntil(startDate + BLOCKS_PER_DAY);
+        due = getAmountDue(chain, deployer);
+        assertEquals(due['rent'], types.uint(1500));
+        assertEquals(due['arrears'], types.uint(0));
+
+        // Second period begins with the first still unpaid
+        chain.mineEmptyBlockUntil(startDate + 30 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        processLateFees(chain, deployer);
+        due = getAmountDue(chain, deployer);
+        assertEquals(due['rent'], types.uint(1500));
+        assertEquals(due['arrears'], types.uint(1500));
+        assertEquals(due['late-fees'], types.uint(210));
+        assertEquals(due['prepaid-credit'], types.uint(0));
+        assertEquals(due['total'], types.uint(3210));
+
+        let amountDue = chain.callReadOnlyFn('blockrent-contract', 'get-amount-due', [types.uint(999)], deployer.address);
+        assertEquals(amountDue.result, types.none());
+    },
+});
+
+Clarinet.test({
+    name: "Partial payments clear late fees first and carry the shortfall as arrears",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        chain.mineEmptyBlockUntil(startDate + 30 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        processLateFees(chain, deployer);
+
+        // 210 in late fees is cleared, 1290 goes towards the first period
+        let block = chain.mineBlock([
+            payRent(tenant, 1, 1500)
+        ]);
+        let result = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(result['arrears'], types.uint(210));
+
+        let due = getAmountDue(chain, deployer);
+        assertEquals(due['late-fees'], types.uint(0));
+        assertEquals(due['arrears'], types.uint(210));
+        assertEquals(due['rent'], types.uint(1500));
+
+        // A small top-up reduces arrears without covering the current period
+        block = chain.mineBlock([
+            payRent(tenant, 1, 200)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['arrears'], types.uint(10));
+
+        let rentPaid = chain.callReadOnlyFn('blockrent-contract', 'get-lease-rent-paid', [types.uint(1)], deployer.address);
+        assertEquals(rentPaid.result.expectSome(), types.uint(1490));
+
+        // Rent for the first period is still short, so it remains the due date
+        let dates = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dates', [types.uint(1)], deployer.address)
+            .result.expectSome().expectTuple();
+        assertEquals(dates['rent-due-date'], types.uint(startDate));
+    },
+});
+
+Clarinet.test({
+    name: "Overpayments become prepaid credit for future periods",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        chain.mineEmptyBlockUntil(startDate + BLOCKS_PER_DAY);
+
+        // Two payments in the same block pay two separate periods
+        let block = chain.mineBlock([
+            payRent(tenant, 1, 1500),
+            payRent(tenant, 1, 2000)
+        ]);
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['prepaid-credit'], types.uint(2000));
+
+        let due = getAmountDue(chain, deployer);
+        assertEquals(due['rent'], types.uint(0));
+        assertEquals(due['prepaid-credit'], types.uint(2000));
+        assertEquals(due['total'], types.uint(0));
+
+        const record = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment', [types.uint(1), types.uint(2)], deployer.address)
+            .result.expectSome().expectTuple();
+        assertEquals(record['period-start'], types.uint(startDate + 30 * BLOCKS_PER_DAY));
+        assertEquals(record['period-end'], types.uint(startDate + 90 * BLOCKS_PER_DAY));
+
+        // Credit covers the second period; the third is only partly paid
+        chain.mineEmptyBlockUntil(startDate + 45 * BLOCKS_PER_DAY);
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(0));
+
+        chain.mineEmptyBlockUntil(startDate + 62 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        due = getAmountDue(chain, deployer);
+        assertEquals(due['rent'], types.uint(1000));
+        assertEquals(due['prepaid-credit'], types.uint(0));
+        assertEquals(processLateFees(chain, deployer)['late-fees'], types.uint(14));
+    },
+});
+
+// Test Suite 12: Error Codes
+Clarinet.test({
+    name: "create-lease fails with ERR_PROPERTY_NOT_FOUND for an unknown property",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestLease(deployer, 1, tenant.address, 100, 200)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_PROPERTY_NOT_FOUND));
+    },
+});
+
+Clarinet.test({
+    name: "create-lease fails with ERR_NOT_PROPERTY_OWNER when called by a non-owner",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(tenant, 1, tenant.address, 100, 200)
+        ]);
+
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
+    },
+});
+
+Clarinet.test({
+    name: "create-lease fails with ERR_PROPERTY_UNAVAILABLE while another lease holds the property",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const otherTenant = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            createTestLease(deployer, 1, otherTenant.address, 100, 200)
+        ]);
+
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_PROPERTY_UNAVAILABLE));
+    },
+});
+
+Clarinet.test({
+    name: "create-lease fails with ERR_INVALID_START_DATE for a start date in the past",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        chain.mineEmptyBlockUntil(6000);
+        const lastBlock = chain.blockHeight - 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 0, 200),
+            createTestLease(deployer, 1, tenant.address, 1, 1 + 8640),
+            createTestLease(deployer, 1, tenant.address, lastBlock, lastBlock + 8640)
+        ]);
+
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_INVALID_START_DATE));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_INVALID_START_DATE));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_INVALID_START_DATE));
+    },
+});
+
+Clarinet.test({
+    name: "create-lease fails with ERR_INVALID_DATE_RANGE unless the end follows the start",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 200, 100),
+            createTestLease(deployer, 1, tenant.address, 200, 200)
+        ]);
+
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_INVALID_DATE_RANGE));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_INVALID_DATE_RANGE));
+    },
+});
+
+Clarinet.test({
+    name: "Lease state errors are reported with specific codes",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200)
+        ]);
+
+        // Pending leases cannot be processed, ended or terminated
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_UNSPECIFIED)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(999)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(999)], deployer.address),
+            Tx.contractCall(
+                'blockrent-contract',
+                'update-property',
+                [types.uint(1), types.uint(1800), types.uint(3600), types.ascii("Update while leased")],
+                deployer.address
+            )
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_LEASE_NOT_ACTIVE));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_LEASE_NOT_ACTIVE));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_LEASE_NOT_ACTIVE));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_LEASE_NOT_ENDED));
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_LEASE_NOT_FOUND));
+        assertEquals(block.receipts[5].result.expectErr(), types.uint(ERR_LEASE_NOT_FOUND));
+        assertEquals(block.receipts[6].result.expectErr(), types.uint(ERR_PROPERTY_UNAVAILABLE));
+
+        // Only the owner may withdraw escrow once the lease has ended
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 1),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_LEASE_NOT_ACTIVE));
+    },
+});
+
+// Test Suite 13: Events
+const getPrintEvent = (receipt: any) => {
+    const printEvents = receipt.events.filter((event: any) => event.type === 'contract_event' && event.contract_event.topic === 'print');
+    assertEquals(printEvents.length, 1);
+    return printEvents[0].contract_event.value.expectTuple();
+};
+
+Clarinet.test({
+    name: "Property registration and updates emit events",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            Tx.contractCall(
+                'blockrent-contract',
+                'update-property',
+                [types.uint(1), types.uint(1800), types.uint(3600), types.ascii("Updated property")],
+                deployer.address
+            )
+        ]);
+
+        assertEquals(getPrintEvent(block.receipts[0]), {
+            'event': types.ascii("property-registered"),
+            'property-id': types.uint(1),
+            'owner': deployer.address,
+            'monthly-rent': types.uint(1500),
+            'security-deposit': types.uint(3000),
+            'payment-token': types.none(),
+            'status': types.ascii("available"),
+        });
+
+        assertEquals(getPrintEvent(block.receipts[1]), {
+            'event': types.ascii("property-updated"),
+            'property-id': types.uint(1),
+            'owner': deployer.address,
+            'monthly-rent': types.uint(1800),
+            'security-deposit': types.uint(3600),
+            'status': types.ascii("available"),
+        });
+    },
+});
+
+Clarinet.test({
+    name: "Lease proposal, acceptance and cancellation emit events",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Property 1"),
+            createTestProperty(deployer, "456 Oak Ave", 2000, 4000, "Property 2"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            createTestLease(deployer, 2, tenant.address, 100, 200),
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(2)], tenant.address)
+        ]);
+
+        assertEquals(getPrintEvent(block.receipts[2]), {
+            'event': types.ascii("lease-created"),
+            'lease-id': types.uint(1),
+            'property-id': types.uint(1),
+            'owner': deployer.address,
+            'tenant': tenant.address,
+            'co-tenants': `[${tenant.address}]`,
+            'monthly-rent': types.uint(1500),
+            'security-deposit': types.uint(3000),
+            'start-date': types.uint(100),
+            'end-date': types.uint(200),
+            'status': types.ascii("pending"),
+        });
+
+        assertEquals(getPrintEvent(block.receipts[3]), {
+            'event': types.ascii("lease-accepted"),
+            'lease-id': types.uint(1),
+            'property-id': types.uint(1),
+            'tenant': tenant.address,
+            'deposit': types.uint(3000),
+            'status': types.ascii("active"),
+        });
+
+        assertEquals(getPrintEvent(block.receipts[5]), {
+            'event': types.ascii("lease-proposal-cancelled"),
+            'lease-id': types.uint(2),
+            'property-id': types.uint(2),
+            'cancelled-by': tenant.address,
+            'status': types.ascii("cancelled"),
+        });
+    },
+});
+
+Clarinet.test({
+    name: "Rent payments and late fee processing emit events",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        chain.mineEmptyBlockUntil(startDate + 5 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(1)], deployer.address),
+            payRent(tenant, 1, 1000)
+        ]);
+
+        assertEquals(getPrintEvent(block.receipts[0]), {
+            'event': types.ascii("late-fees-processed"),
+            'lease-id': types.uint(1),
+            'property-id': types.uint(1),
+            'days-overdue': types.uint(5),
+            'late-fees': types.uint(35),
+            'keeper': deployer.address,
+            'bounty': types.uint(0),
+            'status': types.ascii("active"),
+        });
+
+        assertEquals(getPrintEvent(block.receipts[1]), {
+            'event': types.ascii("rent-paid"),
+            'lease-id': types.uint(1),
+            'property-id': types.uint(1),
+            'tenant': tenant.address,
+            'payment-id': types.uint(1),
+            'amount': types.uint(1000),
+            'escrow-fee': types.uint(2),
+            'late-fees-cleared': types.uint(35),
+            'arrears': types.uint(0),
+            'status': types.ascii("active"),
+        });
+
+        // Crossing MAX-LATE-DAYS reports the terminated status
+        chain.mineEmptyBlockUntil(startDate + 31 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(1)], deployer.address)
+        ]);
+
+        const event = getPrintEvent(block.receipts[0]);
+        assertEquals(event['days-overdue'], types.uint(31));
+        assertEquals(event['status'], types.ascii("terminated"));
+    },
+});
+
+Clarinet.test({
+    name: "Lease exits and escrow withdrawal emit events",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Property 1"),
+            createTestProperty(deployer, "456 Oak Ave", 2000, 4000, "Property 2"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            createTestLease(deployer, 2, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            acceptTestLease(tenant, 2)
+        ]);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(2), types.uint(REASON_OWNER_MOVE_IN)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(2)], deployer.address)
+        ]);
+
+        assertEquals(getPrintEvent(block.receipts[0]), {
+            'event': types.ascii("lease-ended"),
+            'lease-id': types.uint(1),
+            'property-id': types.uint(1),
+            'ended-by': tenant.address,
+            'reason': types.uint(REASON_UNSPECIFIED),
+            'break-fee': types.uint(0),
+            'tenant-return': types.uint(3000),
+            'owner-amount': types.uint(0),
+            'status': types.ascii("ended"),
+        });
+
+        assertEquals(getPrintEvent(block.receipts[1]), {
+            'event': types.ascii("lease-emergency-terminated"),
+            'lease-id': types.uint(2),
+            'property-id': types.uint(2),
+            'owner': deployer.address,
+            'terminated-by': deployer.address,
+            'reason': types.uint(REASON_OWNER_MOVE_IN),
+            'penalty': types.uint(2000),
+            'tenant-return': types.uint(6000),
+            'owner-amount': types.uint(0),
+            'status': types.ascii("emergency-terminated"),
+        });
+
+        assertEquals(getPrintEvent(block.receipts[2]), {
+            'event': types.ascii("escrow-withdrawn"),
+            'lease-id': types.uint(2),
+            'property-id': types.uint(2),
+            'owner': deployer.address,
+            'withdrawn-by': deployer.address,
+            'amount': types.uint(0),
+            'status': types.ascii("withdrawn"),
+        });
+
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(2)], tenant.address)
+        ]);
+
+        assertEquals(getPrintEvent(block.receipts[0]), {
+            'event': types.ascii("tenant-refund-withdrawn"),
+            'lease-id': types.uint(2),
+            'property-id': types.uint(2),
+            'tenant': tenant.address,
+            'amount': types.uint(6000),
+            'status': types.ascii("withdrawn"),
+        });
+    },
+});
+
+// Test Suite 14: Platform Admin and Fee Treasury
+Clarinet.test({
+    name: "Escrow fees accumulate in the treasury",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            payRent(tenant, 1, 2000)
+        ]);
+
+        let treasury = chain.callReadOnlyFn('blockrent-contract', 'get-treasury-balance', [], deployer.address);
+        assertEquals(treasury.result, types.uint(8));
+
+        let escrowBalance = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(1)], deployer.address);
+        assertEquals(escrowBalance.result.expectSome(), types.uint(3000 + 1497 + 1995));
+
+        let admin = chain.callReadOnlyFn('blockrent-contract', 'get-admin', [], deployer.address);
+        assertEquals(admin.result, deployer.address);
+    },
+});
+
+Clarinet.test({
+    name: "Only the admin can withdraw the treasury, up to its balance",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const recipient = accounts.get('wallet_3')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(tenant, "123 Main St", 10000, 3000, "Test property"),
+            createTestLease(tenant, 1, recipient.address, 100, 200),
+            acceptTestLease(recipient, 1),
+            payRent(recipient, 1, 10000)
+        ]);
+
+        const recipientBefore = getStxBalance(chain, recipient.address);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury', [types.uint(10), types.principal(tenant.address)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury', [types.uint(26), types.principal(recipient.address)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury', [types.uint(0), types.principal(recipient.address)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury', [types.uint(10), types.principal(recipient.address)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_INSUFFICIENT_TREASURY));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_INVALID_AMOUNT));
+        assertEquals(block.receipts[3].result.expectOk(), types.uint(15));
+
+        assertEquals(getStxBalance(chain, recipient.address), recipientBefore + 10);
+
+        let treasury = chain.callReadOnlyFn('blockrent-contract', 'get-treasury-balance', [], deployer.address);
+        assertEquals(treasury.result, types.uint(15));
+    },
+});
+
+Clarinet.test({
+    name: "Only the admin can change fee rates, within the hard-coded bounds",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'set-escrow-fee-rate', [types.uint(100)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'set-late-fee-rate', [types.uint(100)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'set-escrow-fee-rate', [types.uint(501)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-late-fee-rate', [types.uint(201)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-escrow-fee-rate', [types.uint(500)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-late-fee-rate', [types.uint(200)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_INVALID_FEE_RATE));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_INVALID_FEE_RATE));
+        assertEquals(block.receipts[4].result.expectOk(), types.uint(500));
+        assertEquals(block.receipts[5].result.expectOk(), types.uint(200));
+
+        const rates = chain.callReadOnlyFn('blockrent-contract', 'get-fee-rates', [], deployer.address).result.expectTuple();
+        assertEquals(rates['escrow-fee-rate'], types.uint(500));
+        assertEquals(rates['late-fee-rate'], types.uint(200));
+
+        // New rates apply to subsequent payments
+        block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500)
+        ]);
+
+        assertEquals(block.receipts[3].result.expectOk().expectTuple()['escrow-fee'], types.uint(75));
+    },
+});
+
+Clarinet.test({
+    name: "Only the admin can transfer the admin role",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const newAdmin = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'transfer-admin', [types.principal(newAdmin.address)], newAdmin.address),
+            Tx.contractCall('blockrent-contract', 'transfer-admin', [types.principal(newAdmin.address)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-escrow-fee-rate', [types.uint(10)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'transfer-admin', [types.principal(deployer.address)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-escrow-fee-rate', [types.uint(10)], newAdmin.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        assertEquals(block.receipts[1].result.expectOk(), newAdmin.address);
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        assertEquals(block.receipts[4].result.expectOk(), types.uint(10));
+
+        let admin = chain.callReadOnlyFn('blockrent-contract', 'get-admin', [], deployer.address);
+        assertEquals(admin.result, newAdmin.address);
+    },
+});
+
+// Test Suite 15: Circuit Breaker
+const setPaused = (caller: Account, paused: boolean) => {
+    return Tx.contractCall('blockrent-contract', 'set-paused', [types.bool(paused)], caller.address);
+};
+
+Clarinet.test({
+    name: "Only the admin can pause and unpause the contract",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const wallet1 = accounts.get('wallet_1')!;
+
+        let paused = chain.callReadOnlyFn('blockrent-contract', 'is-paused', [], deployer.address);
+        assertEquals(paused.result, types.bool(false));
+
+        let block = chain.mineBlock([
+            setPaused(wallet1, true),
+            setPaused(deployer, true)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        assertEquals(block.receipts[1].result.expectOk(), types.bool(true));
+
+        paused = chain.callReadOnlyFn('blockrent-contract', 'is-paused', [], deployer.address);
+        assertEquals(paused.result, types.bool(true));
+
+        block = chain.mineBlock([
+            setPaused(wallet1, false),
+            setPaused(deployer, false)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        assertEquals(block.receipts[1].result.expectOk(), types.bool(false));
+
+        paused = chain.callReadOnlyFn('blockrent-contract', 'is-paused', [], deployer.address);
+        assertEquals(paused.result, types.bool(false));
+    },
+});
+
+Clarinet.test({
+    name: "Pausing blocks new listings, leases, payments and late fees",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Property 1"),
+            createTestProperty(deployer, "456 Oak Ave", 2000, 4000, "Property 2"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            createTestLease(deployer, 2, tenant.address, 100, 200),
+            setPaused(deployer, true)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        const blocked = () => [
+            createTestProperty(deployer, "789 Pine Rd", 1200, 2400, "Property 3"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 2),
+            payRent(tenant, 1, 1500),
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(1)], deployer.address)
+        ];
+
+        block = chain.mineBlock(blocked());
+        block.receipts.forEach(receipt => assertEquals(receipt.result.expectErr(), types.uint(ERR_CONTRACT_PAUSED)));
+
+        block = chain.mineBlock([setPaused(deployer, false)]);
+        block.receipts[0].result.expectOk();
+
+        // The same calls go through once unpaused (property 1 is leased, so create-lease reports that instead)
+        block = chain.mineBlock(blocked());
+        assertEquals(block.receipts[0].result.expectOk(), types.uint(3));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_PROPERTY_UNAVAILABLE));
+        block.receipts[2].result.expectOk();
+        block.receipts[3].result.expectOk();
+        block.receipts[4].result.expectOk();
+    },
+});
+
+Clarinet.test({
+    name: "Blocks spent paused do not count toward days overdue",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        // Two days overdue when the contract is paused for 35 days, so the tenant cannot pay
+        chain.mineEmptyBlockUntil(startDate + 2 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        let block = chain.mineBlock([setPaused(deployer, true)]);
+        block.receipts[0].result.expectOk();
+        chain.mineEmptyBlock(35 * BLOCKS_PER_DAY);
+        block = chain.mineBlock([
+            payRent(tenant, 1, 1500),
+            setPaused(deployer, false)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_CONTRACT_PAUSED));
+        block.receipts[1].result.expectOk();
+
+        const pause = chain.callReadOnlyFn('blockrent-contract', 'get-pause', [types.uint(1)], deployer.address)
+            .result.expectSome().expectTuple();
+        const pausedAt = Number(pause['paused-at'].substring(1));
+        assertEquals(pause['resumed-at'], types.uint(pausedAt + 35 * BLOCKS_PER_DAY + 1));
+
+        const daysOverdue = chain.callReadOnlyFn('blockrent-contract', 'get-lease-days-overdue', [types.uint(1)], deployer.address);
+        assertEquals(daysOverdue.result, types.uint(2));
+        const result = processLateFees(chain, deployer);
+        assertEquals(result['late-fees'], types.uint(14));
+        assertEquals(result['status'], types.ascii("active"));
+
+        block = chain.mineBlock([payRent(tenant, 1, 14 + 1500)]);
+        block.receipts[0].result.expectOk();
+        const status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(status.result.expectSome(), types.ascii("active"));
+    },
+});
+
+Clarinet.test({
+    name: "Exits and escrow recovery stay available while paused",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Property 1"),
+            createTestProperty(deployer, "456 Oak Ave", 2000, 4000, "Property 2"),
+            createTestProperty(deployer, "789 Pine Rd", 1200, 2400, "Property 3"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            // Lease 2 is already running so its rent payment is earned by the owner
+            createTestLease(deployer, 2, tenant.address, startDate, 200),
+            createTestLease(deployer, 3, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            acceptTestLease(tenant, 2),
+            payRent(tenant, 2, 2000),
+            setPaused(deployer, true)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(2), types.uint(REASON_UNSPECIFIED)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(2)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(3)], tenant.address),
+            Tx.contractCall(
+                'blockrent-contract',
+                'update-property',
+                [types.uint(1), types.uint(1800), types.uint(3600), types.ascii("Updated while paused")],
+                deployer.address
+            ),
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury', [types.uint(5), types.principal(deployer.address)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['tenant-return'], types.uint(3000));
+        block.receipts[1].result.expectOk();
+        assertEquals(block.receipts[2].result.expectOk().expectTuple()['withdrawn'], types.uint(1995));
+        block.receipts[3].result.expectOk();
+        block.receipts[4].result.expectOk();
+        block.receipts[5].result.expectOk();
+
+        // The tenant's deposit and the owner's penalty are released once the deduction windows close, paused or not
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(2)], tenant.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(4000 + 2000));
+
+        // Unpausing leaves the exit paths working as before
+        block = chain.mineBlock([
+            setPaused(deployer, false),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(0));
+    },
+});
+
+
+// Test Suite 16: Exit Settlement
+const getSettlement = (chain: Chain, caller: Account, leaseId: number) => {
+    const settlement = chain.callReadOnlyFn('blockrent-contract', 'get-lease-settlement', [types.uint(leaseId)], caller.address);
+    return settlement.result.expectTuple();
+};
+
+Clarinet.test({
+    name: "Each party can only claim their own settlement, once, after the lease closes",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500)
+        ]);
+
+        // Claims are closed while the lease is running
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_LEASE_NOT_ENDED));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_LEASE_NOT_ENDED));
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address)
+        ]);
+        block.receipts[0].result.expectOk();
+
+        let settlement = getSettlement(chain, deployer, 1);
+        assertEquals(settlement['owner-claimable'], types.uint(1497));
+        assertEquals(settlement['tenant-claimable'], types.uint(3000));
+
+        // Neither party can claim the other's share
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], stranger.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(99)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_LEASE_NOT_FOUND));
+
+        // Claiming twice pays nothing the second time
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(3000));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(0));
+        assertEquals(block.receipts[2].result.expectOk().expectTuple()['withdrawn'], types.uint(1497));
+        assertEquals(block.receipts[3].result.expectOk().expectTuple()['withdrawn'], types.uint(0));
+        assertEquals(block.receipts[1].events.length, 1);
+
+        settlement = getSettlement(chain, deployer, 1);
+        assertEquals(settlement['owner-claimable'], types.uint(0));
+        assertEquals(settlement['tenant-claimable'], types.uint(0));
+    },
+});
+
+Clarinet.test({
+    name: "Late-fee termination charges arrears and fees against the deposit",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        chain.mineEmptyBlockUntil(startDate + 31 * BLOCKS_PER_DAY);
+        const result = processLateFees(chain, deployer);
+        assertEquals(result['status'], types.ascii("terminated"));
+
+        // The unpaid periods and late fees exceed the deposit, so all of it goes to the owner
+        const settlement = getSettlement(chain, deployer, 1);
+        assertEquals(settlement['owner-claimable'], types.uint(3000));
+        assertEquals(settlement['tenant-claimable'], types.uint(0));
+
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        const block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(3000));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(0));
+        assertEquals(getStxBalance(chain, contractPrincipal(deployer)), 0);
+    },
+});
+
+// Deterministic PRNG so randomized lifecycles are reproducible
+const mulberry32 = (seed: number) => {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+Clarinet.test({
+    name: "Settlement payouts never exceed what was deposited over randomized lifecycles",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenants = ['wallet_1', 'wallet_2', 'wallet_3'].map(name => accounts.get(name)!);
+        const contract = contractPrincipal(deployer);
+        const random = mulberry32(20240517);
+        const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+        const exits = ['tenant-end', 'owner-end', 'emergency', 'late-fees'];
+
+        let totalIn = 0;
+        let totalOut = 0;
+
+        for (let leaseId = 1; leaseId <= 12; leaseId++) {
+            const tenant = tenants[leaseId % tenants.length];
+            const rent = randomInt(5, 30) * 100;
+            const deposit = randomInt(1, 30) * 100;
+            const startDate = chain.blockHeight + 1 + randomInt(0, 3) * 10 * BLOCKS_PER_DAY;
+            const endDate = startDate + randomInt(1, 6) * 30 * BLOCKS_PER_DAY;
+
+            let block = chain.mineBlock([
+                createTestProperty(deployer, "Random St", rent, deposit, "Randomized property"),
+                createTestLease(deployer, leaseId, tenant.address, startDate, endDate),
+                acceptTestLease(tenant, leaseId)
+            ]);
+            block.receipts.forEach(receipt => receipt.result.expectOk());
+            let paidIn = deposit;
+
+            const payments = randomInt(0, 4);
+            for (let i = 0; i < payments; i++) {
+                chain.mineEmptyBlock(randomInt(0, 20) * BLOCKS_PER_DAY);
+                const amount = randomInt(1, 2 * rent);
+                block = chain.mineBlock([payRent(tenant, leaseId, amount)]);
+                if (block.receipts[0].result.startsWith('(ok')) {
+                    paidIn += amount;
+                }
+            }
+            totalIn += paidIn;
+
+            const exit = exits[randomInt(0, exits.length - 1)];
+            if (exit === 'late-fees') {
+                chain.mineEmptyBlock(randomInt(0, 60) * BLOCKS_PER_DAY);
+                chain.mineBlock([
+                    Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(leaseId)], deployer.address)
+                ]);
+            }
+            if (exit === 'owner-end') {
+                chain.mineBlock([
+                    Tx.contractCall('blockrent-contract', 'give-notice', [types.uint(leaseId), types.uint(REASON_UNSPECIFIED)], deployer.address)
+                ]);
+                chain.mineEmptyBlock(NOTICE_PERIOD_BLOCKS);
+            }
+            if (exit === 'emergency') {
+                // The owner's penalty of one month's rent joins what the tenant paid in
+                paidIn += rent;
+                totalIn += rent;
+            }
+            block = chain.mineBlock([
+                exit === 'emergency'
+                    ? Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(leaseId), types.uint(REASON_UNSPECIFIED)], deployer.address)
+                    : Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(leaseId)], exit === 'owner-end' ? deployer.address : tenant.address)
+            ]);
+
+            // A lease already terminated for late fees rejects the second exit
+            const status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(leaseId)], deployer.address);
+            assert(status.result !== types.some(types.ascii("active")));
+
+            const escrow = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(leaseId)], deployer.address);
+            assertEquals(escrow.result.expectSome(), types.uint(0));
+
+            const settlement = getSettlement(chain, deployer, leaseId);
+            const tenantClaimable = Number(settlement['tenant-claimable'].slice(1));
+            const ownerClaimable = Number(settlement['owner-claimable'].slice(1));
+            assert(tenantClaimable + ownerClaimable <= paidIn);
+
+            // The owner may deduct from the deposit, which the tenant accepts or leaves to lapse
+            const maxDeduction = Math.min(deposit, tenantClaimable);
+            if (maxDeduction > 0 && random() < 0.5) {
+                block = chain.mineBlock([
+                    Tx.contractCall(
+                        'blockrent-contract',
+                        'file-deduction',
+                        [types.uint(leaseId), types.uint(randomInt(1, maxDeduction)), types.ascii("Cleaning"), types.buff(new Uint8Array(32))],
+                        deployer.address
+                    )
+                ]);
+                block.receipts[0].result.expectOk();
+                if (random() < 0.5) {
+                    block = chain.mineBlock([
+                        Tx.contractCall('blockrent-contract', 'accept-deductions', [types.uint(leaseId)], tenant.address)
+                    ]);
+                    block.receipts[0].result.expectOk();
+                }
+            }
+            chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+
+            // Both parties claim, in either order, and retry
+            const claims = [
+                Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(leaseId)], tenant.address),
+                Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(leaseId)], deployer.address)
+            ];
+            if (random() < 0.5) {
+                claims.reverse();
+            }
+            block = chain.mineBlock([...claims, ...claims]);
+
+            const withdrawn = block.receipts.map(receipt => Number(receipt.result.expectOk().expectTuple()['withdrawn'].slice(1)));
+            assertEquals(withdrawn[2], 0);
+            assertEquals(withdrawn[3], 0);
+            assertEquals(withdrawn[0] + withdrawn[1], tenantClaimable + ownerClaimable);
+            totalOut += withdrawn[0] + withdrawn[1];
+        }
+
+        // Everything paid in is either paid back out or held as treasury fees
+        const treasury = chain.callReadOnlyFn('blockrent-contract', 'get-treasury-balance', [], deployer.address);
+        const treasuryBalance = Number(treasury.result.slice(1));
+        assertEquals(totalOut + treasuryBalance, totalIn);
+        assertEquals(getStxBalance(chain, contract), treasuryBalance);
+    },
+});
+
+
+// Test Suite 17: Disputes
+const DISPUTE_TIMEOUT = 2016;
+
+const setDefaultArbitrator = (admin: Account, arbitrator: Account) => {
+    return Tx.contractCall('blockrent-contract', 'set-default-arbitrator', [types.principal(arbitrator.address)], admin.address);
+};
+
+const openDispute = (caller: Account, leaseId: number, reason: string) => {
+    return Tx.contractCall('blockrent-contract', 'open-dispute', [types.uint(leaseId), types.ascii(reason)], caller.address);
+};
+
+const resolveDispute = (arbitrator: Account, leaseId: number, tenantAward: number) => {
+    return Tx.contractCall('blockrent-contract', 'resolve-dispute', [types.uint(leaseId), types.uint(tenantAward)], arbitrator.address);
+};
+
+Clarinet.test({
+    name: "Arbitrator splits the escrow of a disputed lease once it closes",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const arbitrator = accounts.get('wallet_3')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            setDefaultArbitrator(deployer, arbitrator),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        block = chain.mineBlock([openDispute(tenant, 1, "Heating broken since move-in")]);
+        const opened = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(opened['arbitrator'], arbitrator.address);
+        assertEquals(opened['deadline'], types.uint(0));
+
+        let status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(status.result.expectSome(), types.ascii("active"));
+
+        // The lease runs on, and there is nothing to rule on until it closes
+        block = chain.mineBlock([
+            payRent(tenant, 1, 1500),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address),
+            resolveDispute(arbitrator, 1, 4000),
+            openDispute(deployer, 1, "Counter claim")
+        ]);
+
+        block.receipts[0].result.expectOk();
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_LEASE_NOT_ENDED));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_LEASE_NOT_ENDED));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_DISPUTE_EXISTS));
+
+        // The tenant leaves with the second period prepaid; escrow holds 3000 of deposit and 2994 of net rent
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['tenant-return'], types.uint(4500));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_ESCROW_FROZEN));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_ESCROW_FROZEN));
+
+        const deadline = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dispute', [types.uint(1)], deployer.address)
+            .result.expectSome().expectTuple()['deadline'];
+        assertEquals(deadline, types.uint(block.height + DISPUTE_TIMEOUT));
+
+        block = chain.mineBlock([
+            resolveDispute(deployer, 1, 4000),
+            resolveDispute(tenant, 1, 4000),
+            resolveDispute(arbitrator, 1, 5995),
+            resolveDispute(arbitrator, 1, 4000),
+            resolveDispute(arbitrator, 1, 0)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_ARBITRATOR));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NOT_ARBITRATOR));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_INVALID_AMOUNT));
+        const ruling = block.receipts[3].result.expectOk().expectTuple();
+        assertEquals(ruling['tenant-award'], types.uint(4000));
+        assertEquals(ruling['owner-award'], types.uint(1994));
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_DISPUTE_NOT_OPEN));
+
+        status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(status.result.expectSome(), types.ascii("ended"));
+
+        const dispute = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dispute', [types.uint(1)], deployer.address);
+        const record = dispute.result.expectSome().expectTuple();
+        assertEquals(record['opened-by'], tenant.address);
+        assertEquals(record['reason'], types.ascii("Heating broken since move-in"));
+        assertEquals(record['status'], types.ascii("resolved"));
+
+        const tenantBefore = getStxBalance(chain, tenant.address);
+        const ownerBefore = getStxBalance(chain, deployer.address);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(getStxBalance(chain, tenant.address), tenantBefore + 4000);
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore + 1994);
+        assertEquals(getStxBalance(chain, contractPrincipal(deployer)), 6);
+    },
+});
+
+Clarinet.test({
+    name: "Owners cannot end a lease early through a dispute",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const newTenant = accounts.get('wallet_2')!;
+        const arbitrator = accounts.get('wallet_3')!;
+        const keeper = accounts.get('wallet_5')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            setDefaultArbitrator(deployer, arbitrator),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 4 * RENT_PERIOD_BLOCKS),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            openDispute(deployer, 1, "Tenant sublet without consent")
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        chain.mineEmptyBlock(DISPUTE_TIMEOUT + 1);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'expire-dispute', [types.uint(1)], keeper.address),
+            createTestLease(deployer, 1, newTenant.address, 10000, 20000),
+            payRent(tenant, 1, 1500)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOTICE_REQUIRED));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_LEASE_NOT_ENDED));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_PROPERTY_UNAVAILABLE));
+        block.receipts[3].result.expectOk();
+
+        const status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(status.result.expectSome(), types.ascii("active"));
+        const termination = chain.callReadOnlyFn('blockrent-contract', 'get-lease-termination', [types.uint(1)], deployer.address);
+        termination.result.expectNone();
+        const owner = chain.callReadOnlyFn('blockrent-contract', 'get-owner', [types.uint(1)], deployer.address);
+        assertEquals(owner.result.expectOk().expectSome(), tenant.address);
+    },
+});
+
+Clarinet.test({
+    name: "Tenant can contest an ended lease before the owner withdraws",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const arbitrator = accounts.get('wallet_4')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(1), types.some(types.principal(arbitrator.address))], deployer.address),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        // Tenant leaves without any rent paid, so the deposit covers the two periods billed
+        chain.mineEmptyBlock(31 * BLOCKS_PER_DAY);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            openDispute(tenant, 1, "Unit was never habitable")
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['owner-amount'], types.uint(3000));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['arbitrator'], arbitrator.address);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_ESCROW_FROZEN));
+
+        block = chain.mineBlock([resolveDispute(arbitrator, 1, 2000)]);
+        block.receipts[0].result.expectOk();
+
+        // A ruling on a closed lease leaves its status alone
+        const status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(status.result.expectSome(), types.ascii("ended"));
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(1000));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(2000));
+    },
+});
+
+Clarinet.test({
+    name: "Disputes fall back to the contract settlement when the arbitrator never rules",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const arbitrator = accounts.get('wallet_3')!;
+        const keeper = accounts.get('wallet_5')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            setDefaultArbitrator(deployer, arbitrator),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            openDispute(deployer, 1, "Tenant sublet without consent")
+        ]);
+
+        // The arbitrator's time to rule starts when the lease closes
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address)
+        ]);
+        const deadline = block.height + DISPUTE_TIMEOUT;
+
+        chain.mineEmptyBlockUntil(deadline - 1);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'expire-dispute', [types.uint(1)], keeper.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_DISPUTE_NOT_TIMED_OUT));
+
+        block = chain.mineBlock([
+            resolveDispute(arbitrator, 1, 0),
+            Tx.contractCall('blockrent-contract', 'expire-dispute', [types.uint(1)], keeper.address),
+            Tx.contractCall('blockrent-contract', 'expire-dispute', [types.uint(1)], keeper.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_DISPUTE_TIMED_OUT));
+        const ruling = block.receipts[1].result.expectOk().expectTuple();
+        assertEquals(ruling['tenant-award'], types.uint(3000));
+        assertEquals(ruling['owner-award'], types.uint(1497));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_DISPUTE_NOT_OPEN));
+
+        assertEquals(getPrintEvent(block.receipts[1]), {
+            'event': types.ascii("dispute-expired"),
+            'lease-id': types.uint(1),
+            'property-id': types.uint(1),
+            'arbitrator': arbitrator.address,
+            'tenant-award': types.uint(3000),
+            'owner-award': types.uint(1497),
+            'status': types.ascii("expired"),
+        });
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(3000));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(1497));
+    },
+});
+
+Clarinet.test({
+    name: "Only lease parties can open disputes, and never before an impartial arbitrator",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+        const arbitrator = accounts.get('wallet_3')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Property 1"),
+            createTestProperty(deployer, "456 Oak Ave", 2000, 4000, "Property 2"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            createTestLease(deployer, 2, tenant.address, 100, 200)
+        ]);
+
+        // The default arbitrator is the deployer, who owns these properties
+        block = chain.mineBlock([
+            openDispute(tenant, 1, "Deposit dispute"),
+            openDispute(stranger, 1, "Deposit dispute"),
+            openDispute(tenant, 2, "Deposit dispute"),
+            openDispute(tenant, 99, "Deposit dispute"),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(1), types.some(types.principal(arbitrator.address))], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-default-arbitrator', [types.principal(arbitrator.address)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_INVALID_ARBITRATOR));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NOT_LEASE_PARTY));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_LEASE_NOT_ACTIVE));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_LEASE_NOT_FOUND));
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_PROPERTY_UNAVAILABLE));
+        assertEquals(block.receipts[5].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+
+        block = chain.mineBlock([
+            createTestProperty(deployer, "789 Pine Rd", 1200, 2400, "Property 3"),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(3), types.some(types.principal(deployer.address))], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(3), types.some(types.principal(arbitrator.address))], tenant.address),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(3), types.some(types.principal(arbitrator.address))], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_INVALID_ARBITRATOR));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
+        assertEquals(block.receipts[3].result.expectOk(), arbitrator.address);
+
+        let assigned = chain.callReadOnlyFn('blockrent-contract', 'get-property-arbitrator', [types.uint(3)], deployer.address);
+        assertEquals(assigned.result, arbitrator.address);
+        assigned = chain.callReadOnlyFn('blockrent-contract', 'get-property-arbitrator', [types.uint(1)], deployer.address);
+        assertEquals(assigned.result, deployer.address);
+
+        // Clearing the property's arbitrator falls back to the platform default
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(3), types.none()], deployer.address),
+            resolveDispute(arbitrator, 1, 0)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk(), deployer.address);
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_DISPUTE_NOT_FOUND));
+    },
+});
+
+
+// Test Suite 18: Deposit Deductions
+const EVIDENCE_HASH = new Uint8Array(32).fill(7);
+
+const fileDeduction = (owner: Account, leaseId: number, amount: number, reason: string) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'file-deduction',
+        [types.uint(leaseId), types.uint(amount), types.ascii(reason), types.buff(EVIDENCE_HASH)],
+        owner.address
+    );
+};
+
+const getDeductions = (chain: Chain, caller: Account, leaseId: number) => {
+    const deductions = chain.callReadOnlyFn('blockrent-contract', 'get-lease-deductions', [types.uint(leaseId)], caller.address);
+    return deductions.result.expectSome().expectTuple();
+};
+
+// Lease already running with its first period paid, then ended by the owner
+const setupEndedLease = (chain: Chain, deployer: Account, tenant: Account) => {
+    const startDate = chain.blockHeight + 1;
+    let block = chain.mineBlock([
+        createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+        createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+        acceptTestLease(tenant, 1),
+        payRent(tenant, 1, 1500)
+    ]);
+    block.receipts.forEach(receipt => receipt.result.expectOk());
+
+    block = chain.mineBlock([
+        Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address)
+    ]);
+    block.receipts[0].result.expectOk();
+    return block.height;
+};
+
+Clarinet.test({
+    name: "Owner files itemized deductions that the tenant accepts",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        setupEndedLease(chain, deployer, tenant);
+
+        let block = chain.mineBlock([
+            fileDeduction(deployer, 1, 500, "Carpet cleaning"),
+            fileDeduction(deployer, 1, 300, "Broken window"),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address)
+        ]);
+
+        let filed = block.receipts[1].result.expectOk().expectTuple();
+        assertEquals(filed['deduction-id'], types.uint(2));
+        assertEquals(filed['total'], types.uint(800));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_DEPOSIT_HELD));
+
+        const deduction = chain.callReadOnlyFn('blockrent-contract', 'get-lease-deduction', [types.uint(1), types.uint(1)], deployer.address);
+        const item = deduction.result.expectSome().expectTuple();
+        assertEquals(item['amount'], types.uint(500));
+        assertEquals(item['reason'], types.ascii("Carpet cleaning"));
+        assertEquals(item['evidence'], types.buff(EVIDENCE_HASH));
+
+        let summary = getDeductions(chain, deployer, 1);
+        assertEquals(summary['count'], types.uint(2));
+        assertEquals(summary['total'], types.uint(800));
+        assertEquals(summary['status'], types.ascii("open"));
+        assertEquals(summary['deposit-held'], types.bool(true));
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'accept-deductions', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'accept-deductions', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'accept-deductions', [types.uint(1)], tenant.address),
+            fileDeduction(deployer, 1, 100, "Late extra claim"),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[1].result.expectOk(), types.uint(800));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_DEDUCTIONS_SETTLED));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_DEDUCTIONS_SETTLED));
+
+        // Accepting releases the rest of the deposit straight away
+        assertEquals(block.receipts[4].result.expectOk().expectTuple()['withdrawn'], types.uint(2200));
+        assertEquals(block.receipts[5].result.expectOk().expectTuple()['withdrawn'], types.uint(1497 + 800));
+
+        summary = getDeductions(chain, deployer, 1);
+        assertEquals(summary['status'], types.ascii("accepted"));
+        assertEquals(summary['deposit-held'], types.bool(false));
+    },
+});
+
+Clarinet.test({
+    name: "Unanswered deductions apply and the rest of the deposit is released after the windows",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const keeper = accounts.get('wallet_5')!;
+        setupEndedLease(chain, deployer, tenant);
+
+        let block = chain.mineBlock([fileDeduction(deployer, 1, 1000, "Repaint walls")]);
+        block.receipts[0].result.expectOk();
+
+        const summary = getDeductions(chain, deployer, 1);
+        const filingDeadline = Number(summary['filing-deadline'].slice(1));
+        const responseDeadline = Number(summary['response-deadline'].slice(1));
+
+        chain.mineEmptyBlockUntil(filingDeadline);
+        block = chain.mineBlock([
+            fileDeduction(deployer, 1, 100, "Missed the window"),
+            Tx.contractCall('blockrent-contract', 'release-deposit', [types.uint(1)], keeper.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_DEDUCTION_WINDOW_CLOSED));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_DEPOSIT_HELD));
+
+        const tenantBefore = getStxBalance(chain, tenant.address);
+        chain.mineEmptyBlockUntil(responseDeadline);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'release-deposit', [types.uint(1)], keeper.address),
+            Tx.contractCall('blockrent-contract', 'contest-deductions', [types.uint(1), types.ascii("Too late")], tenant.address),
+            Tx.contractCall('blockrent-contract', 'open-dispute', [types.uint(1), types.ascii("Too late")], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(2000));
+        assertEquals(getPrintEvent(block.receipts[0]), {
+            'event': types.ascii("deposit-released"),
+            'lease-id': types.uint(1),
+            'property-id': types.uint(1),
+            'tenant': tenant.address,
+            'released-by': keeper.address,
+            'amount': types.uint(2000),
+            'status': types.ascii("withdrawn"),
+        });
+        assertEquals(getStxBalance(chain, tenant.address), tenantBefore + 2000);
+
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_DEDUCTIONS_SETTLED));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_RESPONSE_WINDOW_CLOSED));
+        assertEquals(block.receipts[3].result.expectOk().expectTuple()['withdrawn'], types.uint(1497 + 1000));
+    },
+});
+
+Clarinet.test({
+    name: "Contested deductions are ruled on by the arbitrator",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const arbitrator = accounts.get('wallet_3')!;
+
+        let block = chain.mineBlock([setDefaultArbitrator(deployer, arbitrator)]);
+        setupEndedLease(chain, deployer, tenant);
+
+        // Nothing to answer before the owner files
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'accept-deductions', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'contest-deductions', [types.uint(1), types.ascii("None filed")], tenant.address),
+            fileDeduction(deployer, 1, 2500, "Water damage")
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NO_DEDUCTIONS));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NO_DEDUCTIONS));
+        block.receipts[2].result.expectOk();
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'contest-deductions', [types.uint(1), types.ascii("Damage predates lease")], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address),
+            fileDeduction(deployer, 1, 100, "Another claim")
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['arbitrator'], arbitrator.address);
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_ESCROW_FROZEN));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_ESCROW_FROZEN));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_DISPUTE_EXISTS));
+        assertEquals(getDeductions(chain, deployer, 1)['status'], types.ascii("contested"));
+
+        // The arbitrator allows 500 of the claimed damage
+        block = chain.mineBlock([resolveDispute(arbitrator, 1, 2500)]);
+        block.receipts[0].result.expectOk();
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(2500));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(1997));
+    },
+});
+
+Clarinet.test({
+    name: "Deductions are owner-only, after move-out and within the deposit",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            fileDeduction(deployer, 1, 100, "Too early"),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address)
+        ]);
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_LEASE_NOT_ENDED));
+
+        block = chain.mineBlock([
+            fileDeduction(tenant, 1, 100, "Not the owner"),
+            fileDeduction(deployer, 1, 0, "Nothing"),
+            fileDeduction(deployer, 1, 3001, "More than the deposit"),
+            fileDeduction(deployer, 99, 100, "No such lease")
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_INVALID_AMOUNT));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_INVALID_AMOUNT));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_LEASE_NOT_FOUND));
+
+        const items = [...Array(11).keys()].map(i => fileDeduction(deployer, 1, 100, `Item ${i + 1}`));
+        block = chain.mineBlock(items);
+
+        block.receipts.slice(0, 10).forEach(receipt => receipt.result.expectOk());
+        assertEquals(block.receipts[10].result.expectErr(), types.uint(ERR_TOO_MANY_DEDUCTIONS));
+        assertEquals(getDeductions(chain, deployer, 1)['total'], types.uint(1000));
+    },
+});
+
+
+// Test Suite 19: Lease Renewals
+const RENT_PERIOD_BLOCKS = 30 * 144;
+
+const proposeRenewal = (owner: Account, leaseId: number, endDate: number, rent: number) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'propose-renewal',
+        [types.uint(leaseId), types.uint(endDate), types.uint(rent)],
+        owner.address
+    );
+};
+
+const acceptRenewal = (tenant: Account, leaseId: number) => {
+    return Tx.contractCall('blockrent-contract', 'accept-renewal', [types.uint(leaseId)], tenant.address);
+};
+
+Clarinet.test({
+    name: "Renewal extends the lease in place, keeping its deposit and payment history",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        // Two billing periods at 1500, with the first one paid
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 2 * RENT_PERIOD_BLOCKS),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        block = chain.mineBlock([
+            proposeRenewal(deployer, 1, startDate + 4 * RENT_PERIOD_BLOCKS, 1650)
+        ]);
+        block.receipts[0].result.expectOk();
+
+        const proposal = chain.callReadOnlyFn('blockrent-contract', 'get-renewal-proposal', [types.uint(1)], deployer.address);
+        assertEquals(proposal.result.expectSome().expectTuple()['monthly-rent'], types.uint(1650));
+
+        block = chain.mineBlock([acceptRenewal(tenant, 1)]);
+        const accepted = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(accepted['renewal-id'], types.uint(1));
+        assertEquals(accepted['status'], types.ascii("renewed"));
+        assertEquals(getPrintEvent(block.receipts[0]), {
+            'event': types.ascii("lease-renewed"),
+            'lease-id': types.uint(1),
+            'property-id': types.uint(1),
+            'tenant': tenant.address,
+            'renewal-id': types.uint(1),
+            'previous-end-date': types.uint(startDate + 2 * RENT_PERIOD_BLOCKS),
+            'end-date': types.uint(startDate + 4 * RENT_PERIOD_BLOCKS),
+            'monthly-rent': types.uint(1650),
+            'status': types.ascii("active"),
+        });
+
+        const dates = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dates', [types.uint(1)], deployer.address);
+        assertEquals(dates.result.expectSome().expectTuple()['end-date'], types.uint(startDate + 4 * RENT_PERIOD_BLOCKS));
+        const rent = chain.callReadOnlyFn('blockrent-contract', 'get-lease-rent', [types.uint(1)], deployer.address);
+        assertEquals(rent.result.expectSome(), types.uint(1650));
+        const escrow = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(1)], deployer.address);
+        assertEquals(escrow.result.expectSome(), types.uint(3000 + 1497));
+        const proposalAfter = chain.callReadOnlyFn('blockrent-contract', 'get-renewal-proposal', [types.uint(1)], deployer.address);
+        proposalAfter.result.expectNone();
+
+        const renewals = chain.callReadOnlyFn('blockrent-contract', 'get-lease-renewals', [types.uint(1)], deployer.address);
+        const history = renewals.result.expectList();
+        assertEquals(history.length, 1);
+        const renewal = history[0].expectTuple();
+        assertEquals(renewal['start-period'], types.uint(2));
+        assertEquals(renewal['previous-rent'], types.uint(1500));
+        assertEquals(renewal['monthly-rent'], types.uint(1650));
+
+        // The second period is still billed at the old rent; the renewed periods at the new one
+        block = chain.mineBlock([
+            payRent(tenant, 1, 1500),
+            payRent(tenant, 1, 1650)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['prepaid-credit'], types.uint(1500));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['prepaid-credit'], types.uint(3150));
+
+        const payment = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment', [types.uint(1), types.uint(3)], deployer.address);
+        const record = payment.result.expectSome().expectTuple();
+        assertEquals(record['period-start'], types.uint(startDate + 2 * RENT_PERIOD_BLOCKS));
+        assertEquals(record['period-end'], types.uint(startDate + 3 * RENT_PERIOD_BLOCKS));
+
+        const count = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment-count', [types.uint(1)], deployer.address);
+        assertEquals(count.result, types.uint(3));
+
+        chain.mineEmptyBlockUntil(startDate + 3 * RENT_PERIOD_BLOCKS + 10);
+        const due = getAmountDue(chain, deployer);
+        assertEquals(due['rent'], types.uint(1650));
+        assertEquals(due['arrears'], types.uint(0));
+        assertEquals(due['prepaid-credit'], types.uint(0));
+    },
+});
+
+Clarinet.test({
+    name: "Renewals are owner-proposed, tenant-accepted and capped",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Property 1"),
+            createTestProperty(deployer, "456 Oak Ave", 2000, 4000, "Property 2"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            createTestLease(deployer, 2, tenant.address, 100, 200)
+        ]);
+
+        block = chain.mineBlock([
+            proposeRenewal(tenant, 1, 300, 1500),
+            proposeRenewal(deployer, 1, 200, 1500),
+            proposeRenewal(deployer, 1, 300, 1651),
+            proposeRenewal(deployer, 1, 300, 0),
+            proposeRenewal(deployer, 2, 300, 2000),
+            acceptRenewal(tenant, 1),
+            proposeRenewal(deployer, 1, 300, 1650)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_INVALID_DATE_RANGE));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_RENT_INCREASE_TOO_HIGH));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_INVALID_AMOUNT));
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_LEASE_NOT_ACTIVE));
+        assertEquals(block.receipts[5].result.expectErr(), types.uint(ERR_RENEWAL_NOT_FOUND));
+        block.receipts[6].result.expectOk();
+
+        block = chain.mineBlock([
+            acceptRenewal(deployer, 1),
+            Tx.contractCall('blockrent-contract', 'cancel-renewal-proposal', [types.uint(1)], stranger.address),
+            Tx.contractCall('blockrent-contract', 'cancel-renewal-proposal', [types.uint(1)], tenant.address),
+            acceptRenewal(tenant, 1),
+            Tx.contractCall('blockrent-contract', 'cancel-renewal-proposal', [types.uint(1)], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NOT_LEASE_PARTY));
+        block.receipts[2].result.expectOk();
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_RENEWAL_NOT_FOUND));
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_RENEWAL_NOT_FOUND));
+
+        // Rent may be lowered freely, but the tenant must accept before the proposal expires
+        block = chain.mineBlock([proposeRenewal(deployer, 1, 400, 1000)]);
+        block.receipts[0].result.expectOk();
+        chain.mineEmptyBlock(1009);
+        block = chain.mineBlock([acceptRenewal(tenant, 1)]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_PROPOSAL_EXPIRED));
+    },
+});
+
+Clarinet.test({
+    name: "A lease can be renewed at most ten times",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1000, 2000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 100 + RENT_PERIOD_BLOCKS),
+            acceptTestLease(tenant, 1)
+        ]);
+
+        let rent = 1000;
+        for (let renewal = 1; renewal <= 10; renewal++) {
+            rent += 100;
+            block = chain.mineBlock([
+                proposeRenewal(deployer, 1, 100 + (renewal + 1) * RENT_PERIOD_BLOCKS, rent),
+                acceptRenewal(tenant, 1)
+            ]);
+            assertEquals(block.receipts[1].result.expectOk().expectTuple()['renewal-id'], types.uint(renewal));
+        }
+
+        block = chain.mineBlock([
+            proposeRenewal(deployer, 1, 100 + 12 * RENT_PERIOD_BLOCKS, rent)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_TOO_MANY_RENEWALS));
+
+        const count = chain.callReadOnlyFn('blockrent-contract', 'get-lease-renewal-count', [types.uint(1)], deployer.address);
+        assertEquals(count.result, types.uint(10));
+        const renewals = chain.callReadOnlyFn('blockrent-contract', 'get-lease-renewals', [types.uint(1)], deployer.address);
+        assertEquals(renewals.result.expectList().length, 10);
+
+        // Prepaying the whole term bills each period at the rent in force for it
+        const total = 1000 + [...Array(10).keys()].reduce((sum, i) => sum + 1100 + i * 100, 0);
+        block = chain.mineBlock([payRent(tenant, 1, total)]);
+        const dates = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dates', [types.uint(1)], deployer.address);
+        assertEquals(dates.result.expectSome().expectTuple()['rent-due-date'], types.uint(100 + 11 * RENT_PERIOD_BLOCKS));
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['prepaid-credit'], types.uint(total));
+    },
+});
+
+
+// Test Suite 20: Co-Tenants
+const coTenant = (tenant: Account, share: number) => {
+    return types.tuple({ 'tenant': types.principal(tenant.address), 'share': types.uint(share) });
+};
+
+const createSharedLease = (owner: Account, propertyId: number, coTenants: string[], startDate: number, endDate: number) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'create-shared-lease',
+        [types.uint(propertyId), types.list(coTenants), types.uint(startDate), types.uint(endDate)],
+        owner.address
+    );
+};
+
+const getCoTenant = (chain: Chain, leaseId: number, tenant: Account) => {
+    const record = chain.callReadOnlyFn('blockrent-contract', 'get-co-tenant', [types.uint(leaseId), types.principal(tenant.address)], tenant.address);
+    return record.result.expectSome().expectTuple();
+};
+
+Clarinet.test({
+    name: "Shared lease activates once every co-tenant funds their deposit share",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const carol = accounts.get('wallet_3')!;
+        const stranger = accounts.get('wallet_4')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3001, "Shared flat"),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(bob, 3000), coTenant(carol, 1999)], 100, 200),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(alice, 5000)], 100, 200),
+            createSharedLease(deployer, 1, [coTenant(alice, 10000), coTenant(bob, 0)], 100, 200),
+            createSharedLease(deployer, 1, [], 100, 200),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(bob, 3000), coTenant(carol, 2000)], 100, 200)
+        ]);
+
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_INVALID_SHARES));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_INVALID_SHARES));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_INVALID_SHARES));
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_INVALID_SHARES));
+        assertEquals(block.receipts[5].result.expectOk(), types.uint(1));
+
+        // The first co-tenant covers the rounding in the deposit split
+        assertEquals(getCoTenant(chain, 1, alice)['deposit'], types.uint(1501));
+        assertEquals(getCoTenant(chain, 1, bob)['deposit'], types.uint(900));
+        assertEquals(getCoTenant(chain, 1, carol)['deposit'], types.uint(600));
+
+        const coTenants = chain.callReadOnlyFn('blockrent-contract', 'get-lease-co-tenants', [types.uint(1)], deployer.address);
+        assertEquals(coTenants.result.expectSome().expectList(), [alice.address, bob.address, carol.address]);
+
+        block = chain.mineBlock([
+            acceptTestLease(alice, 1),
+            acceptTestLease(alice, 1),
+            acceptTestLease(stranger, 1),
+            payRent(alice, 1, 1500),
+            acceptTestLease(bob, 1)
+        ]);
+
+        let accepted = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(accepted['deposit'], types.uint(1501));
+        assertEquals(accepted['status'], types.ascii("pending"));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_ALREADY_ACCEPTED));
+        assertEquals(block.receipts[2].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_LEASE_NOT_ACTIVE));
+        assertEquals(block.receipts[4].result.expectOk().expectTuple()['status'], types.ascii("pending"));
+
+        block = chain.mineBlock([acceptTestLease(carol, 1)]);
+        accepted = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(accepted['deposit'], types.uint(600));
+        assertEquals(accepted['status'], types.ascii("active"));
+
+        const escrow = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(1)], deployer.address);
+        assertEquals(escrow.result.expectSome(), types.uint(3001));
+        assertEquals(getStxBalance(chain, contractPrincipal(deployer)), 3001);
+    },
+});
+
+Clarinet.test({
+    name: "Co-tenant payments are credited to the payer and the lease is current only when fully covered",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Shared flat"),
+            createSharedLease(deployer, 1, [coTenant(alice, 6000), coTenant(bob, 4000)], startDate, startDate + 8640),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 1),
+            payRent(bob, 1, 600)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        assertEquals(getPrintEvent(block.receipts[4])['tenant'], bob.address);
+
+        // Bob has paid his share, but the period is not covered until Alice pays hers
+        let due = getAmountDue(chain, deployer);
+        assertEquals(due['rent'], types.uint(900));
+        let dates = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dates', [types.uint(1)], deployer.address);
+        assertEquals(dates.result.expectSome().expectTuple()['rent-due-date'], types.uint(startDate));
+
+        block = chain.mineBlock([payRent(alice, 1, 900)]);
+        due = getAmountDue(chain, deployer);
+        assertEquals(due['rent'], types.uint(0));
+        dates = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dates', [types.uint(1)], deployer.address);
+        assertEquals(dates.result.expectSome().expectTuple()['rent-due-date'], types.uint(startDate + 4320));
+
+        assertEquals(getCoTenant(chain, 1, alice)['paid'], types.uint(900));
+        assertEquals(getCoTenant(chain, 1, bob)['paid'], types.uint(600));
+    },
+});
+
+Clarinet.test({
+    name: "Tenant refunds are split in proportion to what each co-tenant paid in",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const carol = accounts.get('wallet_3')!;
+        const keeper = accounts.get('wallet_5')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Shared flat"),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(bob, 3000), coTenant(carol, 2000)], startDate, startDate + 8640),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 1),
+            acceptTestLease(carol, 1),
+            payRent(alice, 1, 1500),
+            payRent(bob, 1, 1500)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        // Any co-tenant may end the lease; the tenants are owed the deposit and the prepaid period
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], carol.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['tenant-return'], types.uint(4500));
+
+        // Paid in: Alice 1500 + 1500, Bob 900 + 1500, Carol 600, out of 6000
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], bob.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], alice.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], alice.address),
+            Tx.contractCall('blockrent-contract', 'release-deposit', [types.uint(1)], keeper.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(1800));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(2250));
+        assertEquals(block.receipts[2].result.expectOk().expectTuple()['withdrawn'], types.uint(0));
+        assertEquals(block.receipts[3].result.expectOk().expectTuple()['withdrawn'], types.uint(450));
+        assertEquals(getCoTenant(chain, 1, carol)['refunded'], types.uint(450));
+
+        const settlement = chain.callReadOnlyFn('blockrent-contract', 'get-lease-settlement', [types.uint(1)], deployer.address);
+        assertEquals(settlement.result.expectTuple()['tenant-claimable'], types.uint(0));
+    },
+});
+
+Clarinet.test({
+    name: "Cancelling a partly accepted shared lease refunds the deposits already paid",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const carol = accounts.get('wallet_3')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Shared flat"),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(bob, 3000), coTenant(carol, 2000)], 100, 200),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 1)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        const aliceBefore = getStxBalance(chain, alice.address);
+        const bobBefore = getStxBalance(chain, bob.address);
+        assertEquals(getStxBalance(chain, contractPrincipal(deployer)), 2400);
+
+        // Carol declines, which cancels the proposal for everyone
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], carol.address)
+        ]);
+        block.receipts[0].result.expectOk();
+
+        assertEquals(getStxBalance(chain, alice.address), aliceBefore + 1500);
+        assertEquals(getStxBalance(chain, bob.address), bobBefore + 900);
+        assertEquals(getStxBalance(chain, contractPrincipal(deployer)), 0);
+
+        const escrow = chain.callReadOnlyFn('blockrent-contract', 'get-escrow-balance', [types.uint(1)], deployer.address);
+        assertEquals(escrow.result.expectSome(), types.uint(0));
+    },
+});
+
+
+Clarinet.test({
+    name: "A shared lease is renewed only once every co-tenant accepts",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+
+        const endDate = 100 + 2 * RENT_PERIOD_BLOCKS;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1000, 2000, "Shared flat"),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(bob, 5000)], 100, endDate),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 1),
+            proposeRenewal(deployer, 1, endDate + 12 * RENT_PERIOD_BLOCKS, 1100)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        // Bob alone cannot extend Alice's liability or accept the higher rent for her
+        block = chain.mineBlock([
+            acceptRenewal(bob, 1),
+            acceptRenewal(bob, 1)
+        ]);
+        const pending = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(pending['renewal-id'], types.uint(1));
+        assertEquals(pending['status'], types.ascii("pending"));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_ALREADY_ACCEPTED));
+
+        let dates = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dates', [types.uint(1)], deployer.address);
+        assertEquals(dates.result.expectSome().expectTuple()['end-date'], types.uint(endDate));
+        let rent = chain.callReadOnlyFn('blockrent-contract', 'get-lease-rent', [types.uint(1)], deployer.address);
+        assertEquals(rent.result.expectSome(), types.uint(1000));
+        let proposal = chain.callReadOnlyFn('blockrent-contract', 'get-renewal-proposal', [types.uint(1)], deployer.address);
+        assertEquals(proposal.result.expectSome().expectTuple()['acceptances'], types.uint(1));
+        let consent = chain.callReadOnlyFn('blockrent-contract', 'has-accepted-renewal', [types.uint(1), types.principal(bob.address)], deployer.address);
+        consent.result.expectBool(true);
+
+        // A new proposal needs everyone's acceptance again
+        block = chain.mineBlock([proposeRenewal(deployer, 1, endDate + 6 * RENT_PERIOD_BLOCKS, 1050)]);
+        block.receipts[0].result.expectOk();
+        consent = chain.callReadOnlyFn('blockrent-contract', 'has-accepted-renewal', [types.uint(1), types.principal(bob.address)], deployer.address);
+        consent.result.expectBool(false);
+
+        block = chain.mineBlock([
+            acceptRenewal(alice, 1),
+            acceptRenewal(bob, 1)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['status'], types.ascii("pending"));
+        const renewed = block.receipts[1].result.expectOk().expectTuple();
+        assertEquals(renewed['renewal-id'], types.uint(1));
+        assertEquals(renewed['status'], types.ascii("renewed"));
+
+        dates = chain.callReadOnlyFn('blockrent-contract', 'get-lease-dates', [types.uint(1)], deployer.address);
+        assertEquals(dates.result.expectSome().expectTuple()['end-date'], types.uint(endDate + 6 * RENT_PERIOD_BLOCKS));
+        rent = chain.callReadOnlyFn('blockrent-contract', 'get-lease-rent', [types.uint(1)], deployer.address);
+        assertEquals(rent.result.expectSome(), types.uint(1050));
+        proposal = chain.callReadOnlyFn('blockrent-contract', 'get-renewal-proposal', [types.uint(1)], deployer.address);
+        proposal.result.expectNone();
+    },
+});
+
+// Test Suite 21: Token Payments
+const tokenPrincipal = (deployer: Account) => `${deployer.address}.mock-token`;
+
+const mintTokens = (deployer: Account, recipient: string, amount: number) => {
+    return Tx.contractCall('mock-token', 'mint', [types.uint(amount), types.principal(recipient)], deployer.address);
+};
+
+const getTokenBalance = (chain: Chain, deployer: Account, address: string): number => {
+    const balance = chain.callReadOnlyFn('mock-token', 'get-balance', [types.principal(address)], deployer.address);
+    return Number(balance.result.expectOk().replace('u', ''));
+};
+
+const createTokenProperty = (owner: Account, token: string, rent: number, deposit: number) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'register-property',
+        [
+            types.ascii("1 Stable St"),
+            types.uint(rent),
+            types.uint(deposit),
+            types.ascii("Priced in MUSD"),
+            types.some(types.principal(token))
+        ],
+        owner.address
+    );
+};
+
+const approveToken = (admin: Account, token: string, approved: boolean) => {
+    return Tx.contractCall('blockrent-contract', 'set-token-approved', [types.principal(token), types.bool(approved)], admin.address);
+};
+
+const tokenCall = (deployer: Account, method: string, leaseId: number, sender: Account) => {
+    return Tx.contractCall('blockrent-contract', method, [types.uint(leaseId), types.principal(tokenPrincipal(deployer))], sender.address);
+};
+
+Clarinet.test({
+    name: "Token-priced lease takes its deposit and rent in the token",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const contract = contractPrincipal(deployer);
+
+        const startDate = chain.blockHeight + 10;
+        let block = chain.mineBlock([
+            mintTokens(deployer, tenant.address, 10000),
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            createTokenProperty(deployer, tokenPrincipal(deployer), 1500, 3000),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1)
+        ]);
+        block.receipts[2].result.expectOk();
+        assertEquals(getPrintEvent(block.receipts[2])['payment-token'], types.some(tokenPrincipal(deployer)));
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_WRONG_PAYMENT_TOKEN));
+
+        const propertyToken = chain.callReadOnlyFn('blockrent-contract', 'get-property-payment-token', [types.uint(1)], deployer.address);
+        assertEquals(propertyToken.result.expectSome(), tokenPrincipal(deployer));
+        const leaseToken = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment-token', [types.uint(1)], deployer.address);
+        assertEquals(leaseToken.result.expectSome(), tokenPrincipal(deployer));
+
+        const stxBefore = getStxBalance(chain, contract);
+        block = chain.mineBlock([
+            tokenCall(deployer, 'accept-lease-token', 1, tenant),
+            payRent(tenant, 1, 1500),
+            Tx.contractCall('blockrent-contract', 'pay-rent-token', [types.uint(1), types.uint(1500), types.principal(tokenPrincipal(deployer))], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['status'], types.ascii("active"));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_WRONG_PAYMENT_TOKEN));
+        const payment = block.receipts[2].result.expectOk().expectTuple();
+        assertEquals(payment['amount'], types.uint(1497));
+        assertEquals(payment['escrow-fee'], types.uint(3));
+
+        assertEquals(getTokenBalance(chain, deployer, tenant.address), 10000 - 4500);
+        assertEquals(getTokenBalance(chain, deployer, contract), 4500);
+        assertEquals(getStxBalance(chain, contract), stxBefore);
+
+        // The fee is kept in the token's own treasury
+        const stxTreasury = chain.callReadOnlyFn('blockrent-contract', 'get-treasury-balance', [], deployer.address);
+        stxTreasury.result.expectUint(0);
+        const tokenTreasury = chain.callReadOnlyFn('blockrent-contract', 'get-token-treasury-balance', [types.principal(tokenPrincipal(deployer))], deployer.address);
+        tokenTreasury.result.expectUint(3);
+    },
+});
+
+Clarinet.test({
+    name: "STX leases reject token calls",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            mintTokens(deployer, tenant.address, 10000),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            tokenCall(deployer, 'accept-lease-token', 1, tenant),
+            acceptTestLease(tenant, 1),
+            Tx.contractCall('blockrent-contract', 'pay-rent-token', [types.uint(1), types.uint(1500), types.principal(tokenPrincipal(deployer))], tenant.address)
+        ]);
+
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_WRONG_PAYMENT_TOKEN));
+        block.receipts[4].result.expectOk();
+        assertEquals(block.receipts[5].result.expectErr(), types.uint(ERR_WRONG_PAYMENT_TOKEN));
+        assertEquals(getTokenBalance(chain, deployer, tenant.address), 10000);
+
+        const leaseToken = chain.callReadOnlyFn('blockrent-contract', 'get-lease-payment-token', [types.uint(1)], deployer.address);
+        leaseToken.result.expectNone();
+    },
+});
+
+Clarinet.test({
+    name: "Token escrow pays settlements, refunds and fees out in the token",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const owner = accounts.get('wallet_2')!;
+        const tenant = accounts.get('wallet_1')!;
+        const admin = accounts.get('wallet_3')!;
+        const contract = contractPrincipal(deployer);
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            mintTokens(deployer, tenant.address, 10000),
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            createTokenProperty(owner, tokenPrincipal(deployer), 1500, 3000),
+            createTestLease(owner, 1, tenant.address, startDate, startDate + 8640),
+            tokenCall(deployer, 'accept-lease-token', 1, tenant),
+            Tx.contractCall('blockrent-contract', 'pay-rent-token', [types.uint(1), types.uint(1500), types.principal(tokenPrincipal(deployer))], tenant.address),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'transfer-admin', [types.principal(admin.address)], deployer.address)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], owner.address),
+            tokenCall(deployer, 'withdraw-escrow-token', 1, owner)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_WRONG_PAYMENT_TOKEN));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(1497));
+        assertEquals(getTokenBalance(chain, deployer, owner.address), 1497);
+
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'release-deposit', [types.uint(1)], admin.address),
+            tokenCall(deployer, 'release-deposit-token', 1, admin),
+            tokenCall(deployer, 'withdraw-tenant-refund-token', 1, tenant),
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury-token', [types.principal(tokenPrincipal(deployer)), types.uint(4), types.principal(admin.address)], admin.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury-token', [types.principal(tokenPrincipal(deployer)), types.uint(3), types.principal(admin.address)], owner.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury-token', [types.principal(tokenPrincipal(deployer)), types.uint(3), types.principal(admin.address)], admin.address)
+        ]);
+
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_WRONG_PAYMENT_TOKEN));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(3000));
+        assertEquals(block.receipts[2].result.expectOk().expectTuple()['withdrawn'], types.uint(0));
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_INSUFFICIENT_TREASURY));
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        block.receipts[5].result.expectOk().expectUint(0);
+
+        assertEquals(getTokenBalance(chain, deployer, tenant.address), 10000 - 1500);
+        assertEquals(getTokenBalance(chain, deployer, admin.address), 3);
+        assertEquals(getTokenBalance(chain, deployer, contract), 0);
+    },
+});
+
+Clarinet.test({
+    name: "Cancelling a token lease proposal refunds accepted co-tenants in the token",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const contract = contractPrincipal(deployer);
+
+        let block = chain.mineBlock([
+            mintTokens(deployer, alice.address, 5000),
+            mintTokens(deployer, bob.address, 5000),
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            createTokenProperty(deployer, tokenPrincipal(deployer), 1500, 3000),
+            Tx.contractCall(
+                'blockrent-contract',
+                'create-shared-lease',
+                [
+                    types.uint(1),
+                    types.list([
+                        types.tuple({ 'tenant': types.principal(alice.address), 'share': types.uint(6000) }),
+                        types.tuple({ 'tenant': types.principal(bob.address), 'share': types.uint(4000) })
+                    ]),
+                    types.uint(100),
+                    types.uint(200)
+                ],
+                deployer.address
+            ),
+            tokenCall(deployer, 'accept-lease-token', 1, alice)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        assertEquals(getTokenBalance(chain, deployer, alice.address), 5000 - 1800);
+        assertEquals(getTokenBalance(chain, deployer, contract), 1800);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], bob.address),
+            tokenCall(deployer, 'cancel-lease-proposal-token', 1, bob)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_WRONG_PAYMENT_TOKEN));
+        block.receipts[1].result.expectOk();
+
+        assertEquals(getTokenBalance(chain, deployer, alice.address), 5000);
+        assertEquals(getTokenBalance(chain, deployer, bob.address), 5000);
+        assertEquals(getTokenBalance(chain, deployer, contract), 0);
+    },
+});
+
+Clarinet.test({
+    name: "Only tokens the admin approved are ever called",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const attacker = accounts.get('wallet_4')!;
+        const contract = contractPrincipal(deployer);
+        const maliciousToken = `${deployer.address}.malicious-token`;
+
+        // Lease 1 leaves STX in escrow for a fake token's transfer to try to take
+        let block = chain.mineBlock([
+            mintTokens(deployer, alice.address, 5000),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, bob.address, 100, 200),
+            acceptTestLease(bob, 1),
+            approveToken(attacker, tokenPrincipal(deployer), true),
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            createTokenProperty(attacker, maliciousToken, 1500, 3000),
+            createTokenProperty(attacker, tokenPrincipal(deployer), 1500, 3000),
+            createSharedLease(attacker, 2, [coTenant(alice, 5000), coTenant(bob, 5000)], 100, 200),
+            tokenCall(deployer, 'accept-lease-token', 2, alice)
+        ]);
+        block.receipts.slice(0, 4).forEach(receipt => receipt.result.expectOk());
+        block.receipts[4].result.expectErr().expectUint(ERR_NOT_ADMIN);
+        block.receipts[5].result.expectOk();
+        block.receipts[6].result.expectErr().expectUint(ERR_TOKEN_NOT_APPROVED);
+        block.receipts.slice(7).forEach(receipt => receipt.result.expectOk());
+        let approved = chain.callReadOnlyFn('blockrent-contract', 'is-token-approved', [types.principal(maliciousToken)], deployer.address);
+        assertEquals(approved.result, types.bool(false));
+        approved = chain.callReadOnlyFn('blockrent-contract', 'is-token-approved', [types.principal(tokenPrincipal(deployer))], deployer.address);
+        assertEquals(approved.result, types.bool(true));
+        const stxBefore = getStxBalance(chain, contract);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal-token', [types.uint(2), types.principal(maliciousToken)], bob.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-treasury-token', [types.principal(maliciousToken), types.uint(1), types.principal(deployer.address)], deployer.address),
+            approveToken(deployer, tokenPrincipal(deployer), false),
+            tokenCall(deployer, 'cancel-lease-proposal-token', 2, bob)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_WRONG_PAYMENT_TOKEN);
+        block.receipts[1].result.expectErr().expectUint(ERR_TOKEN_NOT_APPROVED);
+        block.receipts[2].result.expectOk();
+        block.receipts[3].result.expectErr().expectUint(ERR_TOKEN_NOT_APPROVED);
+        assertEquals(getStxBalance(chain, contract), stxBefore);
+
+        block = chain.mineBlock([
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            tokenCall(deployer, 'cancel-lease-proposal-token', 2, bob)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        assertEquals(getTokenBalance(chain, deployer, alice.address), 5000);
+        assertEquals(getStxBalance(chain, contract), stxBefore);
+    },
+});
+
+
+Clarinet.test({
+    name: "Proposals no one has paid into can be cleared after their token is revoked",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const bystander = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            createTokenProperty(deployer, tokenPrincipal(deployer), 1500, 3000),
+            createTestLease(deployer, 1, tenant.address, 2000, 2000 + 8640),
+            approveToken(deployer, tokenPrincipal(deployer), false)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        // Nothing is refunded, so neither call needs the token once the proposal has expired
+        chain.mineEmptyBlock(1009);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], bystander.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk(), types.ascii("Lease proposal cancelled"));
+
+        const status = chain.callReadOnlyFn('blockrent-contract', 'get-lease-status', [types.uint(1)], deployer.address);
+        assertEquals(status.result.expectSome(), types.ascii("cancelled"));
+        const available = chain.callReadOnlyFn('blockrent-contract', 'get-property-available', [types.uint(1)], deployer.address);
+        assertEquals(available.result.expectSome(), types.bool(true));
+
+        block = chain.mineBlock([
+            createTestLease(deployer, 1, tenant.address, 4000, 4000 + 8640),
+            tokenCall(deployer, 'cancel-lease-proposal-token', 2, tenant)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+    },
+});
+
+// Test Suite 22: Lease Tokens
+const getLeaseTokenOwner = (chain: Chain, caller: Account, leaseId: number) => {
+    return chain.callReadOnlyFn('blockrent-contract', 'get-owner', [types.uint(leaseId)], caller.address).result.expectOk();
+};
+
+const approveLeaseTransfer = (owner: Account, leaseId: number, recipient: string | null) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'approve-lease-transfer',
+        [types.uint(leaseId), recipient ? types.some(types.principal(recipient)) : types.none()],
+        owner.address
+    );
+};
+
+const transferLease = (caller: Account, leaseId: number, sender: string, recipient: string) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'transfer',
+        [types.uint(leaseId), types.principal(sender), types.principal(recipient)],
+        caller.address
+    );
+};
+
+Clarinet.test({
+    name: "Lease token is minted to the tenant on activation and burned when the lease ends",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200)
+        ]);
+        getLeaseTokenOwner(chain, deployer, 1).expectNone();
+
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 1),
+            Tx.contractCall('blockrent-contract', 'set-lease-token-uri', [types.some(types.ascii("ipfs://leases/{id}.json"))], tenant.address),
+            Tx.contractCall('blockrent-contract', 'set-lease-token-uri', [types.some(types.ascii("ipfs://leases/{id}.json"))], deployer.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        const mints = block.receipts[0].events.filter((event: any) => event.type === 'nft_mint_event');
+        assertEquals(mints.length, 1);
+        assertEquals(mints[0].nft_mint_event.recipient, tenant.address);
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_NOT_ADMIN));
+        block.receipts[2].result.expectOk();
+
+        assertEquals(getLeaseTokenOwner(chain, deployer, 1).expectSome(), tenant.address);
+        const lastId = chain.callReadOnlyFn('blockrent-contract', 'get-last-token-id', [], deployer.address);
+        lastId.result.expectOk().expectUint(1);
+        let uri = chain.callReadOnlyFn('blockrent-contract', 'get-token-uri', [types.uint(1)], deployer.address);
+        assertEquals(uri.result.expectOk().expectSome(), types.ascii("ipfs://leases/{id}.json"));
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        assertEquals(block.receipts[0].events.filter((event: any) => event.type === 'nft_burn_event').length, 1);
+
+        getLeaseTokenOwner(chain, deployer, 1).expectNone();
+        uri = chain.callReadOnlyFn('blockrent-contract', 'get-token-uri', [types.uint(1)], deployer.address);
+        uri.result.expectOk().expectNone();
+    },
+});
+
+Clarinet.test({
+    name: "Only fully accepted shared leases mint, and termination burns the token",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Shared flat"),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(bob, 5000)], 100, 200),
+            acceptTestLease(bob, 1)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        getLeaseTokenOwner(chain, deployer, 1).expectNone();
+
+        // The token goes to the first listed co-tenant, whoever accepts last
+        block = chain.mineBlock([acceptTestLease(alice, 1)]);
+        assertEquals(getLeaseTokenOwner(chain, deployer, 1).expectSome(), alice.address);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_UNSPECIFIED)], deployer.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        getLeaseTokenOwner(chain, deployer, 1).expectNone();
+    },
+});
+
+Clarinet.test({
+    name: "Owner-approved lease token transfer assigns the tenancy",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const assignee = accounts.get('wallet_2')!;
+        const stranger = accounts.get('wallet_3')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            transferLease(tenant, 1, tenant.address, assignee.address),
+            approveLeaseTransfer(tenant, 1, assignee.address),
+            approveLeaseTransfer(deployer, 1, assignee.address)
+        ]);
+        block.receipts.slice(0, 4).forEach(receipt => receipt.result.expectOk());
+        assertEquals(block.receipts[4].result.expectErr(), types.uint(ERR_TRANSFER_NOT_APPROVED));
+        assertEquals(block.receipts[5].result.expectErr(), types.uint(ERR_NOT_PROPERTY_OWNER));
+        block.receipts[6].result.expectOk();
+
+        block = chain.mineBlock([
+            transferLease(stranger, 1, tenant.address, assignee.address),
+            transferLease(tenant, 1, tenant.address, stranger.address),
+            transferLease(tenant, 1, tenant.address, assignee.address),
+            payRent(tenant, 1, 1500),
+            payRent(assignee, 1, 1500)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[1].result.expectErr(), types.uint(ERR_TRANSFER_NOT_APPROVED));
+        block.receipts[2].result.expectOk();
+        assertEquals(getPrintEvent(block.receipts[2])['previous-tenant'], tenant.address);
+        assertEquals(block.receipts[3].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        block.receipts[4].result.expectOk();
+
+        assertEquals(getLeaseTokenOwner(chain, deployer, 1).expectSome(), assignee.address);
+        const tenantOfRecord = chain.callReadOnlyFn('blockrent-contract', 'get-lease-tenant', [types.uint(1)], deployer.address);
+        assertEquals(tenantOfRecord.result.expectSome(), assignee.address);
+        const approval = chain.callReadOnlyFn('blockrent-contract', 'get-lease-transfer-approval', [types.uint(1)], deployer.address);
+        approval.result.expectNone();
+
+        // The assignee takes over the deposit and the rent paid before the assignment
+        assertEquals(getCoTenant(chain, 1, assignee)['paid'], types.uint(3000));
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], assignee.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['tenant-return'], types.uint(4500));
+
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], assignee.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectErr(), types.uint(ERR_NOT_TENANT));
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['withdrawn'], types.uint(4500));
+    },
+});
+
+Clarinet.test({
+    name: "Lease token cannot be transferred to an existing co-tenant",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Shared flat"),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(bob, 5000)], 100, 200),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 1),
+            approveLeaseTransfer(deployer, 1, bob.address),
+            transferLease(alice, 1, alice.address, bob.address)
+        ]);
+        block.receipts.slice(0, 5).forEach(receipt => receipt.result.expectOk());
+        assertEquals(block.receipts[5].result.expectErr(), types.uint(ERR_ALREADY_TENANT));
+
+        // Withdrawing the approval leaves nothing to transfer against
+        block = chain.mineBlock([approveLeaseTransfer(deployer, 1, null)]);
+        block.receipts[0].result.expectOk();
+        const approval = chain.callReadOnlyFn('blockrent-contract', 'get-lease-transfer-approval', [types.uint(1)], deployer.address);
+        approval.result.expectNone();
+    },
+});
+
+
+// Test Suite 23: Discovery
+const readOnly = (chain: Chain, caller: Account, method: string, args: string[]) => {
+    return chain.callReadOnlyFn('blockrent-contract', method, args, caller.address).result;
+};
+
+Clarinet.test({
+    name: "Properties and leases can be read as whole records",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        const property = readOnly(chain, deployer, 'get-property', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(property['owner'], deployer.address);
+        assertEquals(property['address'], types.ascii("123 Main St"));
+        assertEquals(property['monthly-rent'], types.uint(1500));
+        assertEquals(property['security-deposit'], types.uint(3000));
+        assertEquals(property['available'], types.bool(false));
+        assertEquals(property['payment-token'], types.none());
+
+        const lease = readOnly(chain, deployer, 'get-lease', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(lease['property-id'], types.uint(1));
+        assertEquals(lease['tenant'], tenant.address);
+        assertEquals(lease['co-tenants'], `[${tenant.address}]`);
+        assertEquals(lease['start-date'], types.uint(100));
+        assertEquals(lease['end-date'], types.uint(200));
+        assertEquals(lease['status'], types.ascii("active"));
+        assertEquals(lease['escrow-balance'], types.uint(3000));
+
+        readOnly(chain, deployer, 'get-property', [types.uint(2)]).expectNone();
+        readOnly(chain, deployer, 'get-lease', [types.uint(2)]).expectNone();
+    },
+});
+
+Clarinet.test({
+    name: "Owner and tenant indexes page through their properties and leases",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const otherOwner = accounts.get('wallet_4')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const carol = accounts.get('wallet_3')!;
+
+        const registrations = [];
+        for (let i = 0; i < 12; i++) {
+            registrations.push(createTestProperty(deployer, `${i} Main St`, 1500, 3000, "Test property"));
+            if (i === 5) {
+                registrations.push(createTestProperty(otherOwner, "1 Side St", 1000, 2000, "Other owner"));
+            }
+        }
+        let block = chain.mineBlock(registrations);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        readOnly(chain, deployer, 'get-owner-property-count', [types.principal(deployer.address)]).expectUint(12);
+        const firstPage = readOnly(chain, deployer, 'get-owner-properties', [types.principal(deployer.address), types.uint(0)]).expectList();
+        assertEquals(firstPage, ['u1', 'u2', 'u3', 'u4', 'u5', 'u6', 'u8', 'u9', 'u10', 'u11']);
+        const secondPage = readOnly(chain, deployer, 'get-owner-properties', [types.principal(deployer.address), types.uint(10)]).expectList();
+        assertEquals(secondPage, ['u12', 'u13']);
+        assertEquals(readOnly(chain, deployer, 'get-owner-properties', [types.principal(otherOwner.address), types.uint(0)]).expectList(), ['u7']);
+
+        block = chain.mineBlock([
+            createTestLease(deployer, 1, alice.address, 100, 200),
+            createSharedLease(deployer, 2, [coTenant(alice, 5000), coTenant(bob, 5000)], 100, 200),
+            acceptTestLease(alice, 2),
+            acceptTestLease(bob, 2),
+            approveLeaseTransfer(deployer, 2, carol.address),
+            transferLease(alice, 2, alice.address, carol.address)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        // Alice keeps the lease she assigned in her history; Carol gains it
+        assertEquals(readOnly(chain, deployer, 'get-tenant-leases', [types.principal(alice.address), types.uint(0)]).expectList(), ['u1', 'u2']);
+        assertEquals(readOnly(chain, deployer, 'get-tenant-leases', [types.principal(bob.address), types.uint(0)]).expectList(), ['u2']);
+        assertEquals(readOnly(chain, deployer, 'get-tenant-leases', [types.principal(carol.address), types.uint(0)]).expectList(), ['u2']);
+        readOnly(chain, deployer, 'get-tenant-lease-count', [types.principal(alice.address)]).expectUint(2);
+        readOnly(chain, deployer, 'get-tenant-lease-count', [types.principal(deployer.address)]).expectUint(0);
+    },
+});
+
+Clarinet.test({
+    name: "Available properties listing skips leased properties and reports the next page",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        const registrations = [];
+        for (let i = 1; i <= 12; i++) {
+            registrations.push(createTestProperty(deployer, `${i} Main St`, 1000 + i, 3000, "Test property"));
+        }
+        let block = chain.mineBlock([
+            ...registrations,
+            createTestLease(deployer, 2, tenant.address, 100, 200),
+            createTestLease(deployer, 3, tenant.address, 100, 200),
+            createTestLease(deployer, 11, tenant.address, 100, 200)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        let page = readOnly(chain, deployer, 'get-available-properties', [types.uint(0)]).expectTuple();
+        let listed = page['properties'].expectList().map(property => property.expectTuple());
+        assertEquals(listed.map(property => property['property-id']), ['u1', 'u4', 'u5', 'u6', 'u7', 'u8', 'u9', 'u10']);
+        assertEquals(listed[0]['monthly-rent'], types.uint(1001));
+        assertEquals(page['next-offset'], types.some(types.uint(10)));
+
+        page = readOnly(chain, deployer, 'get-available-properties', [types.uint(10)]).expectTuple();
+        listed = page['properties'].expectList().map(property => property.expectTuple());
+        assertEquals(listed.map(property => property['property-id']), ['u12']);
+        assertEquals(page['next-offset'], types.none());
+    },
+});
+
+// Test Suite 24: Lease and Property Records
+
+Clarinet.test({
+    name: "Create-lease and pay-rent keep the lease record whole",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 3, 8641)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        let lease = readOnly(chain, deployer, 'get-lease', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(lease['status'], '"pending"');
+        assertEquals(lease['escrow-balance'], types.uint(0));
+        assertEquals(lease['end-date'], types.uint(8641));
+
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            payRent(tenant, 1, 1500)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        // The 0.25% escrow fee comes to 3 on each payment
+        lease = readOnly(chain, deployer, 'get-lease', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(lease['status'], '"active"');
+        assertEquals(lease['rent-paid'], types.uint(3000));
+        assertEquals(lease['escrow-balance'], types.uint(3000 + 2 * 1497));
+        assertEquals(lease['monthly-rent'], types.uint(1500));
+        assertEquals(lease['payment-token'], types.none());
+
+        const property = readOnly(chain, deployer, 'get-property', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(property['available'], types.bool(false));
+        assertEquals(property['owner'], deployer.address);
+    },
+});
+
+// Test Suite 25: Property Lifecycle
+const setListingPaused = (owner: Account, propertyId: number, paused: boolean) => {
+    return Tx.contractCall('blockrent-contract', 'set-listing-paused', [types.uint(propertyId), types.bool(paused)], owner.address);
+};
+
+const delistProperty = (owner: Account, propertyId: number) => {
+    return Tx.contractCall('blockrent-contract', 'delist-property', [types.uint(propertyId)], owner.address);
+};
+
+const updatePropertyAddress = (owner: Account, propertyId: number, address: string) => {
+    return Tx.contractCall('blockrent-contract', 'update-property-address', [types.uint(propertyId), types.ascii(address)], owner.address);
+};
+
+const transferProperty = (owner: Account, propertyId: number, newOwner: string) => {
+    return Tx.contractCall('blockrent-contract', 'transfer-property', [types.uint(propertyId), types.principal(newOwner)], owner.address);
+};
+
+Clarinet.test({
+    name: "Paused listings take no new leases until the owner lists them again",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            setListingPaused(stranger, 1, true),
+            setListingPaused(deployer, 1, true),
+            createTestLease(deployer, 1, tenant.address, 5, 100)
+        ]);
+        block.receipts[1].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        assertEquals(block.receipts[2].result.expectOk(), '"paused"');
+        block.receipts[3].result.expectErr().expectUint(ERR_PROPERTY_UNAVAILABLE);
+        assertEquals(readOnly(chain, deployer, 'get-property-listing', [types.uint(1)]), types.some('"paused"'));
+        const page = readOnly(chain, deployer, 'get-available-properties', [types.uint(0)]).expectTuple();
+        assertEquals(page['properties'].expectList(), []);
+
+        // Pausing is only about new leases, so an owner may still edit the terms meanwhile
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'update-property', [types.uint(1), types.uint(1600), types.uint(3200), types.ascii("Updated")], deployer.address),
+            setListingPaused(deployer, 1, false),
+            createTestLease(deployer, 1, tenant.address, 5, 100)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        assertEquals(block.receipts[1].result.expectOk(), '"listed"');
+    },
+});
+
+Clarinet.test({
+    name: "Delisting is permanent and only possible without a lease in place",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 5, 100),
+            delistProperty(deployer, 1),
+            Tx.contractCall('blockrent-contract', 'cancel-lease-proposal', [types.uint(1)], deployer.address),
+            delistProperty(stranger, 1),
+            delistProperty(deployer, 1)
+        ]);
+        block.receipts[2].result.expectErr().expectUint(ERR_PROPERTY_UNAVAILABLE);
+        block.receipts[3].result.expectOk();
+        block.receipts[4].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        assertEquals(block.receipts[5].result.expectOk(), '"delisted"');
+
+        block = chain.mineBlock([
+            createTestLease(deployer, 1, tenant.address, 5, 100),
+            setListingPaused(deployer, 1, false),
+            delistProperty(deployer, 1),
+            updatePropertyAddress(deployer, 1, "124 Main St"),
+            transferProperty(deployer, 1, stranger.address),
+            Tx.contractCall('blockrent-contract', 'update-property', [types.uint(1), types.uint(1600), types.uint(3200), types.ascii("Updated")], deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_PROPERTY_UNAVAILABLE);
+        block.receipts.slice(1).forEach(receipt => receipt.result.expectErr().expectUint(ERR_PROPERTY_DELISTED));
+
+        // The record is kept for the leases it already had
+        const property = readOnly(chain, deployer, 'get-property', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(property['listing'], '"delisted"');
+        assertEquals(property['owner'], deployer.address);
+    },
+});
+
+Clarinet.test({
+    name: "Owners can correct a property's address while it is let",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Mian St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 5, 100),
+            acceptTestLease(tenant, 1),
+            updatePropertyAddress(tenant, 1, "Somewhere else"),
+            updatePropertyAddress(deployer, 1, "123 Main St")
+        ]);
+        block.receipts[3].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[4].result.expectOk().expectBool(true);
+
+        const event = getPrintEvent(block.receipts[4]);
+        assertEquals(event['event'], '"property-address-updated"');
+        assertEquals(event['previous-address'], '"123 Mian St"');
+        assertEquals(readOnly(chain, deployer, 'get-property-address', [types.uint(1)]), types.some('"123 Main St"'));
+
+        block = chain.mineBlock([
+            updatePropertyAddress(deployer, 2, "Nowhere")
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_PROPERTY_NOT_FOUND);
+    },
+});
+
+Clarinet.test({
+    name: "Selling a property hands an active lease's rent and escrow to the new owner",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const seller = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const tenant = accounts.get('wallet_3')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(seller, "1 High St", 1500, 3000, "First"),
+            createTestProperty(seller, "2 High St", 1500, 3000, "Second"),
+            createTestProperty(seller, "3 High St", 1500, 3000, "Third"),
+            createTestLease(seller, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            transferProperty(buyer, 1, tenant.address),
+            transferProperty(seller, 1, seller.address),
+            transferProperty(seller, 1, deployer.address),
+            transferProperty(seller, 1, buyer.address)
+        ]);
+        block.receipts.slice(0, 6).forEach(receipt => receipt.result.expectOk());
+        block.receipts[6].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[7].result.expectErr().expectUint(ERR_INVALID_OWNER);
+        // The deployer is the default arbitrator, who can't be a party to the property's leases
+        block.receipts[8].result.expectErr().expectUint(ERR_INVALID_ARBITRATOR);
+        block.receipts[9].result.expectOk().expectBool(true);
+
+        assertEquals(readOnly(chain, deployer, 'get-property-owner', [types.uint(1)]), types.some(buyer.address));
+        assertEquals(readOnly(chain, deployer, 'get-owner-properties', [types.principal(seller.address), types.uint(0)]).expectList(), ['u3', 'u2']);
+        assertEquals(readOnly(chain, deployer, 'get-owner-properties', [types.principal(buyer.address), types.uint(0)]).expectList(), ['u1']);
+
+        block = chain.mineBlock([
+            payRent(tenant, 1, 1500),
+            Tx.contractCall('blockrent-contract', 'give-notice', [types.uint(1), types.uint(REASON_UNSPECIFIED)], seller.address),
+            Tx.contractCall('blockrent-contract', 'give-notice', [types.uint(1), types.uint(REASON_OWNER_MOVE_IN)], buyer.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        block.receipts[1].result.expectErr().expectUint(ERR_NOT_LEASE_PARTY);
+        block.receipts[2].result.expectOk();
+
+        chain.mineEmptyBlock(NOTICE_PERIOD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], seller.address),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], buyer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], seller.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOT_LEASE_PARTY);
+        const settlement = block.receipts[1].result.expectOk().expectTuple();
+        block.receipts[2].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+
+        const ownerAmount = Number(settlement['owner-amount'].replace('u', ''));
+        assert(ownerAmount > 0);
+        const buyerBefore = getStxBalance(chain, buyer.address);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], buyer.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        assertEquals(getStxBalance(chain, buyer.address), buyerBefore + ownerAmount);
+    },
+});
+
+Clarinet.test({
+    name: "Claims on leases closed before a sale stay with the previous owner",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const seller = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const tenant = accounts.get('wallet_3')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(seller, "1 High St", 1500, 3000, "First"),
+            createTestLease(seller, 1, tenant.address, 5, 8645),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            transferProperty(seller, 1, buyer.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], buyer.address),
+            fileDeduction(buyer, 1, 100, "Cleaning"),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], seller.address)
+        ]);
+        block.receipts.slice(0, 6).forEach(receipt => receipt.result.expectOk());
+        block.receipts[6].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[7].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[8].result.expectOk();
+
+        // The buyer can let the property straight away
+        block = chain.mineBlock([
+            createTestLease(buyer, 1, tenant.address, 10, 100)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(2);
+    },
+});
+
+// Test Suite 26: Listing Rules
+const setListingLimits = (admin: Account, maxListings: number, bond: number) => {
+    return Tx.contractCall('blockrent-contract', 'set-listing-limits', [types.uint(maxListings), types.uint(bond)], admin.address);
+};
+
+Clarinet.test({
+    name: "Registration rejects a zero rent",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+
+        const block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 0, 0, "Test property")
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_INVALID_AMOUNT);
+        assertEquals(readOnly(chain, deployer, 'get-property', [types.uint(1)]), types.none());
+    },
+});
+
+Clarinet.test({
+    name: "Registration caps the deposit at six months' rent",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1000, 6001, "Test property"),
+            createTestProperty(deployer, "123 Main St", 1000, 6000, "Test property"),
+            createTestProperty(deployer, "124 Main St", 1000, 0, "No deposit")
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_DEPOSIT_TOO_HIGH);
+        block.receipts[1].result.expectOk().expectUint(1);
+        block.receipts[2].result.expectOk().expectUint(2);
+
+        // Edits are held to the same terms
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'update-property', [types.uint(1), types.uint(0), types.uint(0), types.ascii("Free")], deployer.address),
+            Tx.contractCall('blockrent-contract', 'update-property', [types.uint(1), types.uint(500), types.uint(3001), types.ascii("Cheaper")], deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_INVALID_AMOUNT);
+        block.receipts[1].result.expectErr().expectUint(ERR_DEPOSIT_TOO_HIGH);
+    },
+});
+
+Clarinet.test({
+    name: "Registration and address corrections reject an empty address",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+
+        const block = chain.mineBlock([
+            createTestProperty(deployer, "", 1500, 3000, "Test property"),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, ""),
+            updatePropertyAddress(deployer, 1, "")
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_INVALID_ADDRESS);
+        block.receipts[1].result.expectOk().expectUint(1);
+        block.receipts[2].result.expectErr().expectUint(ERR_INVALID_ADDRESS);
+    },
+});
+
+Clarinet.test({
+    name: "Properties record the block they were registered in",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+
+        chain.mineEmptyBlockUntil(10);
+        const block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property")
+        ]);
+        block.receipts[0].result.expectOk();
+
+        const property = readOnly(chain, deployer, 'get-property', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(property['created-at'], types.uint(block.height));
+    },
+});
+
+Clarinet.test({
+    name: "The admin can cap the listings an owner holds",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const owner = accounts.get('wallet_1')!;
+        const otherOwner = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            setListingLimits(owner, 2, 0),
+            setListingLimits(deployer, 2, 0),
+            createTestProperty(owner, "1 High St", 1500, 3000, "First"),
+            createTestProperty(owner, "2 High St", 1500, 3000, "Second"),
+            createTestProperty(owner, "3 High St", 1500, 3000, "Third"),
+            createTestProperty(otherOwner, "4 High St", 1500, 3000, "Fourth")
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOT_ADMIN);
+        block.receipts[1].result.expectOk();
+        block.receipts[2].result.expectOk();
+        block.receipts[3].result.expectOk();
+        block.receipts[4].result.expectErr().expectUint(ERR_LISTING_LIMIT);
+        block.receipts[5].result.expectOk();
+        readOnly(chain, deployer, 'get-owner-listing-count', [types.principal(owner.address)]).expectUint(2);
+
+        // Delisting frees a slot; a cap of 0 lifts the limit
+        block = chain.mineBlock([
+            delistProperty(owner, 1),
+            createTestProperty(owner, "3 High St", 1500, 3000, "Third"),
+            createTestProperty(owner, "5 High St", 1500, 3000, "Fifth"),
+            setListingLimits(deployer, 0, 0),
+            createTestProperty(owner, "5 High St", 1500, 3000, "Fifth")
+        ]);
+        block.receipts[0].result.expectOk();
+        block.receipts[1].result.expectOk();
+        block.receipts[2].result.expectErr().expectUint(ERR_LISTING_LIMIT);
+        block.receipts[3].result.expectOk();
+        block.receipts[4].result.expectOk();
+        readOnly(chain, deployer, 'get-owner-listing-count', [types.principal(owner.address)]).expectUint(3);
+    },
+});
+
+Clarinet.test({
+    name: "Listing bonds are held from registration until the property is delisted",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const owner = accounts.get('wallet_1')!;
+        const buyer = accounts.get('wallet_2')!;
+        const ownerBefore = getStxBalance(chain, owner.address);
+
+        let block = chain.mineBlock([
+            createTestProperty(owner, "1 High St", 1500, 3000, "Bond-free"),
+            setListingLimits(deployer, 0, 5000),
+            createTestProperty(owner, "2 High St", 1500, 3000, "Bonded")
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        assertEquals(getStxBalance(chain, owner.address), ownerBefore - 5000);
+        assertEquals(getStxBalance(chain, contractPrincipal(deployer)), 5000);
+        readOnly(chain, deployer, 'get-property-bond', [types.uint(1)]).expectUint(0);
+        readOnly(chain, deployer, 'get-property-bond', [types.uint(2)]).expectUint(5000);
+        const limits = readOnly(chain, deployer, 'get-listing-limits', []).expectTuple();
+        assertEquals(limits['bond'], types.uint(5000));
+
+        // The bond goes with the property, and whoever delists it gets it back
+        block = chain.mineBlock([
+            transferProperty(owner, 2, buyer.address),
+            delistProperty(buyer, 2)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        assertEquals(getPrintEvent(block.receipts[1])['bond-returned'], types.uint(5000));
+        assertEquals(getStxBalance(chain, contractPrincipal(deployer)), 0);
+        readOnly(chain, deployer, 'get-property-bond', [types.uint(2)]).expectUint(0);
+        readOnly(chain, deployer, 'get-owner-listing-count', [types.principal(owner.address)]).expectUint(1);
+        readOnly(chain, deployer, 'get-owner-listing-count', [types.principal(buyer.address)]).expectUint(0);
+    },
+});
+
+// Test Suite 27: Termination Terms
+const giveNotice = (caller: Account, leaseId: number, reason: number) => {
+    return Tx.contractCall('blockrent-contract', 'give-notice', [types.uint(leaseId), types.uint(reason)], caller.address);
+};
+
+const setBreakFee = (owner: Account, propertyId: number, fee: number) => {
+    return Tx.contractCall('blockrent-contract', 'set-break-fee', [types.uint(propertyId), types.uint(fee)], owner.address);
+};
+
+const getTermination = (chain: Chain, caller: Account, leaseId: number) => {
+    return readOnly(chain, caller, 'get-lease-termination', [types.uint(leaseId)]).expectSome().expectTuple();
+};
+
+Clarinet.test({
+    name: "Owners must serve notice before ending a lease early",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8 * 8640),
+            acceptTestLease(tenant, 1),
+            giveNotice(stranger, 1, REASON_OWNER_MOVE_IN),
+            giveNotice(deployer, 1, 8),
+            giveNotice(deployer, 1, REASON_OWNER_MOVE_IN),
+            giveNotice(tenant, 1, REASON_RELOCATION)
+        ]);
+        block.receipts[3].result.expectErr().expectUint(ERR_NOT_LEASE_PARTY);
+        block.receipts[4].result.expectErr().expectUint(ERR_INVALID_REASON);
+        block.receipts[5].result.expectOk().expectUint(block.height + NOTICE_PERIOD_BLOCKS);
+        block.receipts[6].result.expectErr().expectUint(ERR_NOTICE_GIVEN);
+
+        const notice = readOnly(chain, deployer, 'get-lease-notice', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(notice['given-by'], deployer.address);
+        assertEquals(notice['reason'], types.uint(REASON_OWNER_MOVE_IN));
+
+        chain.mineEmptyBlock(NOTICE_PERIOD_BLOCKS - 2);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOTICE_REQUIRED);
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address)
+        ]);
+        block.receipts[0].result.expectOk();
+
+        const termination = getTermination(chain, deployer, 1);
+        assertEquals(termination['terminated-by'], deployer.address);
+        assertEquals(termination['reason'], types.uint(REASON_OWNER_MOVE_IN));
+        assertEquals(termination['penalty'], types.uint(0));
+    },
+});
+
+Clarinet.test({
+    name: "Owners ending a lease at once pay the tenant a penalty",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const contract = contractPrincipal(deployer);
+
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'set-termination-terms', [types.uint(2000), types.uint(20000)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'set-termination-terms', [types.uint(2000), types.uint(30001)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-termination-terms', [types.uint(2000), types.uint(20000)], deployer.address),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOT_ADMIN);
+        block.receipts[1].result.expectErr().expectUint(ERR_INVALID_FEE_RATE);
+        block.receipts.slice(2).forEach(receipt => receipt.result.expectOk());
+        const terms = readOnly(chain, deployer, 'get-termination-terms', []).expectTuple();
+        assertEquals(terms['notice-blocks'], types.uint(2000));
+        assertEquals(terms['penalty-rate'], types.uint(20000));
+
+        const ownerBefore = getStxBalance(chain, deployer.address);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(8)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_OWNER_MOVE_IN)], deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_INVALID_REASON);
+        block.receipts[1].result.expectOk();
+
+        // Two months' rent moves from the owner to the tenant's claim
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore - 3000);
+        assertEquals(getStxBalance(chain, contract), 3000 + 3000);
+        const termination = getTermination(chain, deployer, 1);
+        assertEquals(termination['reason'], types.uint(REASON_OWNER_MOVE_IN));
+        assertEquals(termination['penalty'], types.uint(3000));
+
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(6000));
+    },
+});
+
+Clarinet.test({
+    name: "Accepting a renewal withdraws a notice served under the old terms",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        const endDate = 100 + 2 * RENT_PERIOD_BLOCKS;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, endDate),
+            acceptTestLease(tenant, 1),
+            giveNotice(deployer, 1, REASON_OWNER_MOVE_IN)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        block = chain.mineBlock([
+            proposeRenewal(deployer, 1, endDate + 12 * RENT_PERIOD_BLOCKS, 1500),
+            acceptRenewal(tenant, 1)
+        ]);
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['status'], types.ascii("renewed"));
+        readOnly(chain, deployer, 'get-lease-notice', [types.uint(1)]).expectNone();
+
+        // Once the old notice would have taken effect, the owner still needs a new one or must pay the penalty
+        chain.mineEmptyBlock(NOTICE_PERIOD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOTICE_REQUIRED);
+        assertEquals(readOnly(chain, deployer, 'get-lease-status', [types.uint(1)]).expectSome(), types.ascii("active"));
+    },
+});
+
+Clarinet.test({
+    name: "Termination terms cannot drop below the notice and penalty minimums",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'set-termination-terms', [types.uint(0), types.uint(0)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-termination-terms', [types.uint(MIN_NOTICE_PERIOD_BLOCKS - 1), types.uint(10000)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-termination-terms', [types.uint(NOTICE_PERIOD_BLOCKS), types.uint(4999)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-termination-terms', [types.uint(MIN_NOTICE_PERIOD_BLOCKS), types.uint(5000)], deployer.address),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 100 + 8 * 8640),
+            acceptTestLease(tenant, 1)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_INVALID_AMOUNT);
+        block.receipts[1].result.expectErr().expectUint(ERR_INVALID_AMOUNT);
+        block.receipts[2].result.expectErr().expectUint(ERR_INVALID_FEE_RATE);
+        block.receipts.slice(3).forEach(receipt => receipt.result.expectOk());
+        const terms = readOnly(chain, deployer, 'get-termination-terms', []).expectTuple();
+        assertEquals(terms['notice-blocks'], types.uint(MIN_NOTICE_PERIOD_BLOCKS));
+        assertEquals(terms['penalty-rate'], types.uint(5000));
+
+        // Even at the minimums the owner waits out the notice or pays half a month's rent
+        block = chain.mineBlock([giveNotice(deployer, 1, REASON_OWNER_MOVE_IN)]);
+        block.receipts[0].result.expectOk();
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_OWNER_MOVE_IN)], deployer.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOTICE_REQUIRED);
+        block.receipts[1].result.expectOk();
+        assertEquals(getTermination(chain, deployer, 1)['penalty'], types.uint(750));
+    },
+});
+
+Clarinet.test({
+    name: "Owner penalties on token leases are paid in the token",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const owner = accounts.get('wallet_2')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            mintTokens(deployer, tenant.address, 5000),
+            mintTokens(deployer, owner.address, 5000),
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            createTokenProperty(owner, tokenPrincipal(deployer), 1500, 3000),
+            createTestLease(owner, 1, tenant.address, 100, 200),
+            tokenCall(deployer, 'accept-lease-token', 1, tenant),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_OWNER_MOVE_IN)], owner.address),
+            Tx.contractCall(
+                'blockrent-contract',
+                'emergency-terminate-token',
+                [types.uint(1), types.uint(REASON_OWNER_MOVE_IN), types.principal(tokenPrincipal(deployer))],
+                owner.address
+            )
+        ]);
+        block.receipts.slice(0, 6).forEach(receipt => receipt.result.expectOk());
+        block.receipts[6].result.expectErr().expectUint(ERR_WRONG_PAYMENT_TOKEN);
+        block.receipts[7].result.expectOk();
+
+        assertEquals(getTokenBalance(chain, deployer, owner.address), 5000 - 1500);
+        assertEquals(getTokenBalance(chain, deployer, contractPrincipal(deployer)), 3000 + 1500);
+    },
+});
+
+Clarinet.test({
+    name: "Tenants leaving early without notice pay the lease's break fee",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+
+        // The shortest notice period lets Bob's notice take effect before his lease starts
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'set-termination-terms', [types.uint(MIN_NOTICE_PERIOD_BLOCKS), types.uint(10000)], deployer.address),
+            createTestProperty(deployer, "1 High St", 1500, 3000, "First"),
+            createTestProperty(deployer, "2 High St", 1500, 3000, "Second"),
+            setBreakFee(alice, 1, 1000),
+            setBreakFee(deployer, 1, 3001),
+            setBreakFee(deployer, 1, 1000),
+            setBreakFee(deployer, 2, 1000),
+            createTestLease(deployer, 1, alice.address, 100, 200),
+            createTestLease(deployer, 2, bob.address, 2000, 2000 + 8640),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 2),
+            // A later change leaves the running lease's fee as agreed
+            setBreakFee(deployer, 1, 2000)
+        ]);
+        block.receipts[3].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[4].result.expectErr().expectUint(ERR_INVALID_AMOUNT);
+        block.receipts.slice(5).forEach(receipt => receipt.result.expectOk());
+        assertEquals(readOnly(chain, deployer, 'get-lease', [types.uint(1)]).expectSome().expectTuple()['break-fee'], types.uint(1000));
+
+        // Bob gives notice and waits for it; Alice leaves at once
+        block = chain.mineBlock([
+            giveNotice(bob, 2, REASON_RELOCATION),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], alice.address)
+        ]);
+        const settlement = block.receipts[1].result.expectOk().expectTuple();
+        assertEquals(settlement['tenant-return'], types.uint(2000));
+        assertEquals(settlement['owner-amount'], types.uint(1000));
+        assertEquals(getTermination(chain, deployer, 1)['break-fee'], types.uint(1000));
+
+        chain.mineEmptyBlock(MIN_NOTICE_PERIOD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(2)], bob.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['tenant-return'], types.uint(3000));
+        const termination = getTermination(chain, deployer, 2);
+        assertEquals(termination['reason'], types.uint(REASON_RELOCATION));
+        assertEquals(termination['break-fee'], types.uint(0));
+    },
+});
+
+Clarinet.test({
+    name: "Leases that run to their end date or fall into arrears record why they ended",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "1 High St", 1500, 3000, "First"),
+            createTestProperty(deployer, "2 High St", 1500, 3000, "Second"),
+            setBreakFee(deployer, 1, 1000),
+            createTestLease(deployer, 1, tenant.address, startDate, 100),
+            createTestLease(deployer, 2, tenant.address, startDate, startDate + 8 * 8640),
+            acceptTestLease(tenant, 1),
+            acceptTestLease(tenant, 2)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        chain.mineEmptyBlock(40 * BLOCKS_PER_DAY);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(2)], deployer.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['status'], types.ascii("terminated"));
+
+        const expired = getTermination(chain, deployer, 1);
+        assertEquals(expired['reason'], types.uint(REASON_LEASE_EXPIRED));
+        assertEquals(expired['break-fee'], types.uint(0));
+        assertEquals(getTermination(chain, deployer, 2)['reason'], types.uint(REASON_NON_PAYMENT));
+    },
+});
+
+// Test Suite 28: Property Managers
+const PERMISSION_LISTING = 1;
+const PERMISSION_LEASING = 2;
+const PERMISSION_COLLECT = 4;
+const PERMISSION_TERMINATE = 8;
+const PERMISSION_WITHDRAW = 16;
+const ALL_PERMISSIONS = 31;
+
+const grantManager = (owner: Account, propertyId: number, manager: string, permissions: number, expiresAt: number) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'grant-manager',
+        [types.uint(propertyId), types.principal(manager), types.uint(permissions), types.uint(expiresAt)],
+        owner.address
+    );
+};
+
+const revokeManager = (owner: Account, propertyId: number, manager: string) => {
+    return Tx.contractCall('blockrent-contract', 'revoke-manager', [types.uint(propertyId), types.principal(manager)], owner.address);
+};
+
+const hasManagerPermission = (chain: Chain, caller: Account, propertyId: number, manager: string, permission: number) => {
+    return readOnly(chain, caller, 'has-manager-permission', [types.uint(propertyId), types.principal(manager), types.uint(permission)]);
+};
+
+const updateProperty = (caller: Account, propertyId: number, rent: number, deposit: number) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'update-property',
+        [types.uint(propertyId), types.uint(rent), types.uint(deposit), types.ascii("Managed")],
+        caller.address
+    );
+};
+
+Clarinet.test({
+    name: "Owners grant, limit and revoke property managers",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const manager = accounts.get('wallet_2')!;
+        const buyer = accounts.get('wallet_3')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            grantManager(manager, 1, buyer.address, ALL_PERMISSIONS, 0),
+            grantManager(deployer, 1, deployer.address, ALL_PERMISSIONS, 0),
+            grantManager(deployer, 1, manager.address, 0, 0),
+            grantManager(deployer, 1, manager.address, ALL_PERMISSIONS + 1, 0),
+            grantManager(deployer, 2, manager.address, ALL_PERMISSIONS, 0),
+            grantManager(deployer, 1, manager.address, PERMISSION_LISTING | PERMISSION_TERMINATE, 0)
+        ]);
+        block.receipts[1].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[2].result.expectErr().expectUint(ERR_INVALID_MANAGER);
+        block.receipts[3].result.expectErr().expectUint(ERR_INVALID_PERMISSIONS);
+        block.receipts[4].result.expectErr().expectUint(ERR_INVALID_PERMISSIONS);
+        block.receipts[5].result.expectErr().expectUint(ERR_PROPERTY_NOT_FOUND);
+        block.receipts[6].result.expectOk().expectUint(PERMISSION_LISTING | PERMISSION_TERMINATE);
+
+        const grant = readOnly(chain, deployer, 'get-property-manager', [types.uint(1), types.principal(manager.address)]).expectSome().expectTuple();
+        assertEquals(grant['granted-by'], deployer.address);
+        assertEquals(grant['permissions'], types.uint(PERMISSION_LISTING | PERMISSION_TERMINATE));
+        assertEquals(grant['expires-at'], types.uint(0));
+        hasManagerPermission(chain, deployer, 1, manager.address, PERMISSION_LISTING).expectBool(true);
+        hasManagerPermission(chain, deployer, 1, manager.address, PERMISSION_TERMINATE).expectBool(true);
+        hasManagerPermission(chain, deployer, 1, manager.address, PERMISSION_LEASING).expectBool(false);
+        hasManagerPermission(chain, deployer, 1, buyer.address, PERMISSION_LISTING).expectBool(false);
+
+        // A grant may run until a block; the manager loses it from that block on
+        const expiresAt = chain.blockHeight + 10;
+        block = chain.mineBlock([
+            grantManager(deployer, 1, manager.address, PERMISSION_LISTING, 1),
+            grantManager(deployer, 1, manager.address, PERMISSION_LISTING, expiresAt),
+            updateProperty(manager, 1, 1600, 3000)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_INVALID_DATE_RANGE);
+        block.receipts[1].result.expectOk();
+        block.receipts[2].result.expectOk();
+        hasManagerPermission(chain, deployer, 1, manager.address, PERMISSION_TERMINATE).expectBool(false);
+
+        chain.mineEmptyBlock(10);
+        hasManagerPermission(chain, deployer, 1, manager.address, PERMISSION_LISTING).expectBool(false);
+        block = chain.mineBlock([
+            updateProperty(manager, 1, 1700, 3000),
+            revokeManager(manager, 1, manager.address),
+            revokeManager(deployer, 1, manager.address),
+            revokeManager(deployer, 1, manager.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[1].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[2].result.expectOk().expectBool(true);
+        block.receipts[3].result.expectErr().expectUint(ERR_MANAGER_NOT_FOUND);
+        readOnly(chain, deployer, 'get-property-manager', [types.uint(1), types.principal(manager.address)]).expectNone();
+
+        // Grants hold only for the owner who made them, so a sale ends them
+        block = chain.mineBlock([
+            grantManager(deployer, 1, manager.address, ALL_PERMISSIONS, 0),
+            Tx.contractCall('blockrent-contract', 'transfer-property', [types.uint(1), types.principal(manager.address)], manager.address),
+            Tx.contractCall('blockrent-contract', 'transfer-property', [types.uint(1), types.principal(buyer.address)], deployer.address),
+            updateProperty(manager, 1, 1800, 3000)
+        ]);
+        block.receipts[0].result.expectOk();
+        block.receipts[1].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[2].result.expectOk();
+        block.receipts[3].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        hasManagerPermission(chain, deployer, 1, manager.address, PERMISSION_LISTING).expectBool(false);
+    },
+});
+
+Clarinet.test({
+    name: "Managers cannot arbitrate disputes on the property they manage",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const manager = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1000, 1000, "Test property"),
+            grantManager(deployer, 1, manager.address, PERMISSION_LISTING, 0),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(1), types.some(types.principal(manager.address))], manager.address),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(1), types.some(types.principal(manager.address))], deployer.address),
+            createTestLease(deployer, 1, tenant.address, 100, 100 + 8640),
+            acceptTestLease(tenant, 1)
+        ]);
+        block.receipts[2].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[3].result.expectOk();
+        block.receipts.slice(4).forEach(receipt => receipt.result.expectOk());
+
+        // Whatever its permissions, a live grant makes the manager the owner's side of the dispute
+        block = chain.mineBlock([
+            openDispute(tenant, 1, "Deposit withheld"),
+            openDispute(manager, 1, "Deposit withheld")
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_INVALID_ARBITRATOR);
+        block.receipts[1].result.expectErr().expectUint(ERR_NOT_LEASE_PARTY);
+
+        block = chain.mineBlock([
+            revokeManager(deployer, 1, manager.address),
+            openDispute(tenant, 1, "Deposit withheld")
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        const dispute = readOnly(chain, deployer, 'get-lease-dispute', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(dispute['arbitrator'], manager.address);
+    },
+});
+
+Clarinet.test({
+    name: "Managers with the listing permission maintain the listing for the owner",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const manager = accounts.get('wallet_2')!;
+        const arbitrator = accounts.get('wallet_3')!;
+
+        let block = chain.mineBlock([
+            setListingLimits(deployer, 0, 500),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            grantManager(deployer, 1, manager.address, ALL_PERMISSIONS - PERMISSION_LISTING, 0),
+            updateProperty(manager, 1, 1600, 3000),
+            setBreakFee(manager, 1, 1000),
+            Tx.contractCall('blockrent-contract', 'set-listing-paused', [types.uint(1), types.bool(true)], manager.address),
+            Tx.contractCall('blockrent-contract', 'delist-property', [types.uint(1)], manager.address)
+        ]);
+        block.receipts.slice(0, 3).forEach(receipt => receipt.result.expectOk());
+        block.receipts.slice(3).forEach(receipt => receipt.result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER));
+
+        block = chain.mineBlock([
+            grantManager(deployer, 1, manager.address, PERMISSION_LISTING, 0),
+            updateProperty(manager, 1, 1600, 3000),
+            setBreakFee(manager, 1, 1000),
+            Tx.contractCall('blockrent-contract', 'set-listing-paused', [types.uint(1), types.bool(true)], manager.address),
+            Tx.contractCall('blockrent-contract', 'update-property-address', [types.uint(1), types.ascii("125 Main St")], manager.address),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(1), types.some(types.principal(arbitrator.address))], manager.address)
+        ]);
+        block.receipts.slice(0, 5).forEach(receipt => receipt.result.expectOk());
+        // Only the owner chooses who rules on disputes
+        block.receipts[5].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+
+        const property = readOnly(chain, deployer, 'get-property', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(property['owner'], deployer.address);
+        assertEquals(property['monthly-rent'], types.uint(1600));
+        assertEquals(property['break-fee'], types.uint(1000));
+        assertEquals(property['listing'], types.ascii("paused"));
+        assertEquals(property['address'], types.ascii("125 Main St"));
+
+        // The listing bond goes back to the owner, not the manager who delisted
+        const ownerBefore = getStxBalance(chain, deployer.address);
+        const managerBefore = getStxBalance(chain, manager.address);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'delist-property', [types.uint(1)], manager.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore + 500);
+        assertEquals(getStxBalance(chain, manager.address), managerBefore);
+        readOnly(chain, deployer, 'get-owner-listing-count', [types.principal(deployer.address)]).expectUint(0);
+    },
+});
+
+Clarinet.test({
+    name: "Managers with the leasing permission create, renew and assign leases",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const manager = accounts.get('wallet_2')!;
+        const assignee = accounts.get('wallet_3')!;
+
+        const startDate = chain.blockHeight + 1;
+        const endDate = startDate + 8 * 8640;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            grantManager(deployer, 1, manager.address, ALL_PERMISSIONS - PERMISSION_LEASING, 0),
+            createTestLease(manager, 1, tenant.address, startDate, endDate),
+            grantManager(deployer, 1, manager.address, PERMISSION_LEASING, 0),
+            createTestLease(manager, 1, tenant.address, startDate, endDate),
+            acceptTestLease(tenant, 1),
+            proposeRenewal(manager, 1, endDate + 8640, 1500),
+            Tx.contractCall('blockrent-contract', 'cancel-renewal-proposal', [types.uint(1)], manager.address),
+            approveLeaseTransfer(manager, 1, assignee.address)
+        ]);
+        block.receipts[2].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[4].result.expectOk().expectUint(1);
+        block.receipts.slice(5).forEach(receipt => receipt.result.expectOk());
+
+        // The lease is the owner's; the manager only acted for them
+        assertEquals(getPrintEvent(block.receipts[4])['owner'], deployer.address);
+        readOnly(chain, deployer, 'get-renewal-proposal', [types.uint(1)]).expectNone();
+        assertEquals(readOnly(chain, deployer, 'get-lease-transfer-approval', [types.uint(1)]).expectSome(), assignee.address);
+    },
+});
+
+Clarinet.test({
+    name: "Managers with the terminate permission serve notice and end leases for the owner",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const manager = accounts.get('wallet_2')!;
+
+        const startDate = chain.blockHeight + 1;
+        const endDate = startDate + 8 * 8640;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "1 High St", 1500, 3000, "First"),
+            createTestProperty(deployer, "2 High St", 1500, 3000, "Second"),
+            createTestLease(deployer, 1, tenant.address, startDate, endDate),
+            createTestLease(deployer, 2, tenant.address, startDate, endDate),
+            acceptTestLease(tenant, 1),
+            acceptTestLease(tenant, 2),
+            grantManager(deployer, 1, manager.address, ALL_PERMISSIONS - PERMISSION_TERMINATE, 0),
+            grantManager(deployer, 2, manager.address, PERMISSION_TERMINATE, 0),
+            giveNotice(manager, 1, REASON_OWNER_MOVE_IN),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_OWNER_MOVE_IN)], manager.address)
+        ]);
+        block.receipts.slice(0, 8).forEach(receipt => receipt.result.expectOk());
+        block.receipts[8].result.expectErr().expectUint(ERR_NOT_LEASE_PARTY);
+        block.receipts[9].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+
+        // A manager's notice counts as the owner's, and the manager pays any penalty for ending a lease at once
+        const managerBefore = getStxBalance(chain, manager.address);
+        const ownerBefore = getStxBalance(chain, deployer.address);
+        block = chain.mineBlock([
+            grantManager(deployer, 1, manager.address, PERMISSION_TERMINATE, 0),
+            giveNotice(manager, 1, REASON_OWNER_MOVE_IN),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(2), types.uint(REASON_PROPERTY_SALE)], manager.address)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        assertEquals(getStxBalance(chain, manager.address), managerBefore - 1500);
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore);
+        assertEquals(getTermination(chain, deployer, 2)['terminated-by'], manager.address);
+
+        const notice = readOnly(chain, deployer, 'get-lease-notice', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(notice['given-by'], manager.address);
+        assertEquals(notice['by-owner'], types.bool(true));
+
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], manager.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOTICE_REQUIRED);
+
+        chain.mineEmptyBlock(NOTICE_PERIOD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], manager.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        assertEquals(getTermination(chain, deployer, 1)['reason'], types.uint(REASON_OWNER_MOVE_IN));
+    },
+});
+
+Clarinet.test({
+    name: "Managers with the collect and withdraw permissions settle closed leases for the owner",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const manager = accounts.get('wallet_2')!;
+        const arbitrator = accounts.get('wallet_3')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            Tx.contractCall('blockrent-contract', 'set-property-arbitrator', [types.uint(1), types.some(types.principal(arbitrator.address))], deployer.address),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            grantManager(deployer, 1, manager.address, PERMISSION_LISTING | PERMISSION_LEASING | PERMISSION_TERMINATE, 0),
+            fileDeduction(manager, 1, 500, "Cleaning"),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], manager.address),
+            openDispute(manager, 1, "Damage")
+        ]);
+        block.receipts.slice(0, 7).forEach(receipt => receipt.result.expectOk());
+        block.receipts[7].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[8].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[9].result.expectErr().expectUint(ERR_NOT_LEASE_PARTY);
+
+        // Withdrawals a manager makes are paid to the owner
+        const ownerBefore = getStxBalance(chain, deployer.address);
+        const managerBefore = getStxBalance(chain, manager.address);
+        block = chain.mineBlock([
+            grantManager(deployer, 1, manager.address, PERMISSION_COLLECT | PERMISSION_WITHDRAW, 0),
+            fileDeduction(manager, 1, 500, "Cleaning"),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], manager.address),
+            openDispute(manager, 1, "Damage")
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        assertEquals(block.receipts[2].result.expectOk().expectTuple()['withdrawn'], types.uint(1497));
+        assertEquals(getStxBalance(chain, deployer.address), ownerBefore + 1497);
+        assertEquals(getStxBalance(chain, manager.address), managerBefore);
+
+        const dispute = readOnly(chain, deployer, 'get-lease-dispute', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(dispute['opened-by'], manager.address);
+        assertEquals(dispute['arbitrator'], arbitrator.address);
+    },
+});
+
+// Test Suite 29: Automated Rent
+const fundAllowance = (tenant: Account, leaseId: number, amount: number, maxPayment: number) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'fund-rent-allowance',
+        [types.uint(leaseId), types.uint(amount), types.uint(maxPayment)],
+        tenant.address
+    );
+};
+
+const collectRent = (keeper: Account, leaseId: number, tenant: string) => {
+    return Tx.contractCall('blockrent-contract', 'collect-rent', [types.uint(leaseId), types.principal(tenant)], keeper.address);
+};
+
+const getAllowance = (chain: Chain, caller: Account, leaseId: number, tenant: string) => {
+    return readOnly(chain, caller, 'get-rent-allowance', [types.uint(leaseId), types.principal(tenant)]);
+};
+
+Clarinet.test({
+    name: "Keepers pay rent from a tenant's allowance once each billing period begins",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+        const keeper = accounts.get('wallet_3')!;
+        const contract = contractPrincipal(deployer);
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        let block = chain.mineBlock([
+            fundAllowance(stranger, 1, 4000, 1500),
+            fundAllowance(tenant, 1, 4000, 0),
+            fundAllowance(tenant, 1, 4000, 1500),
+            collectRent(keeper, 1, stranger.address),
+            collectRent(keeper, 1, tenant.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOT_TENANT);
+        block.receipts[1].result.expectErr().expectUint(ERR_INVALID_AMOUNT);
+        block.receipts[2].result.expectOk().expectUint(4000);
+        block.receipts[3].result.expectErr().expectUint(ERR_NO_ALLOWANCE);
+        // The lease has not started, so nothing can be pulled yet
+        block.receipts[4].result.expectErr().expectUint(ERR_RENT_NOT_DUE);
+        assertEquals(getStxBalance(chain, contract), 3000 + 4000);
+
+        // The first period's rent is pulled once, by whoever calls first
+        const keeperBefore = getStxBalance(chain, keeper.address);
+        chain.mineEmptyBlockUntil(startDate + 10);
+        block = chain.mineBlock([
+            collectRent(keeper, 1, tenant.address),
+            collectRent(stranger, 1, tenant.address)
+        ]);
+        const payment = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(payment['amount'], types.uint(1497));
+        assertEquals(payment['escrow-fee'], types.uint(3));
+        block.receipts[1].result.expectErr().expectUint(ERR_RENT_NOT_DUE);
+        assertEquals(getStxBalance(chain, keeper.address), keeperBefore);
+        assertEquals(getStxBalance(chain, contract), 3000 + 4000);
+
+        const allowance = getAllowance(chain, deployer, 1, tenant.address).expectSome().expectTuple();
+        assertEquals(allowance['balance'], types.uint(2500));
+        assertEquals(allowance['last-period'], types.uint(1));
+
+        chain.mineEmptyBlockUntil(startDate + RENT_PERIOD_BLOCKS - 10);
+        block = chain.mineBlock([collectRent(keeper, 1, tenant.address)]);
+        block.receipts[0].result.expectErr().expectUint(ERR_RENT_NOT_DUE);
+
+        // Rent the tenant paid by hand leaves nothing for the keeper to pull
+        chain.mineEmptyBlockUntil(startDate + RENT_PERIOD_BLOCKS + 10);
+        block = chain.mineBlock([
+            payRent(tenant, 1, 1500),
+            collectRent(keeper, 1, tenant.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        block.receipts[1].result.expectErr().expectUint(ERR_RENT_NOT_DUE);
+
+        chain.mineEmptyBlockUntil(startDate + 2 * RENT_PERIOD_BLOCKS + 10);
+        block = chain.mineBlock([collectRent(keeper, 1, tenant.address)]);
+        block.receipts[0].result.expectOk();
+
+        // Once the allowance runs low the keeper pays what is left of it
+        chain.mineEmptyBlockUntil(startDate + 3 * RENT_PERIOD_BLOCKS + 10);
+        block = chain.mineBlock([collectRent(keeper, 1, tenant.address)]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['escrow-fee'], types.uint(2));
+        assertEquals(getAllowance(chain, deployer, 1, tenant.address).expectSome().expectTuple()['balance'], types.uint(0));
+        assertEquals(readOnly(chain, deployer, 'get-lease-rent-paid', [types.uint(1)]).expectSome(), types.uint(3 * 1500 + 1000));
+        assertEquals(readOnly(chain, deployer, 'get-amount-due', [types.uint(1)]).expectSome().expectTuple()['total'], types.uint(500));
+    },
+});
+
+Clarinet.test({
+    name: "Tenants top up and cancel allowances, including after the lease closes",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            acceptTestLease(tenant, 1),
+            fundAllowance(tenant, 1, 3000, 1500),
+            fundAllowance(tenant, 1, 1000, 2000),
+            Tx.contractCall('blockrent-contract', 'cancel-rent-allowance', [types.uint(1)], stranger.address),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            fundAllowance(tenant, 1, 1000, 2000)
+        ]);
+        block.receipts.slice(0, 5).forEach(receipt => receipt.result.expectOk());
+        block.receipts[5].result.expectErr().expectUint(ERR_NO_ALLOWANCE);
+        block.receipts[6].result.expectOk();
+        block.receipts[7].result.expectErr().expectUint(ERR_LEASE_NOT_ACTIVE);
+
+        const allowance = getAllowance(chain, deployer, 1, tenant.address).expectSome().expectTuple();
+        assertEquals(allowance['balance'], types.uint(4000));
+        assertEquals(allowance['max-payment'], types.uint(2000));
+
+        const tenantBefore = getStxBalance(chain, tenant.address);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'cancel-rent-allowance', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'cancel-rent-allowance', [types.uint(1)], tenant.address)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(4000);
+        block.receipts[1].result.expectErr().expectUint(ERR_NO_ALLOWANCE);
+        assertEquals(getStxBalance(chain, tenant.address), tenantBefore + 4000);
+        getAllowance(chain, deployer, 1, tenant.address).expectNone();
+    },
+});
+
+Clarinet.test({
+    name: "Token leases fund allowances and pay rent in the token",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const keeper = accounts.get('wallet_3')!;
+        const contract = contractPrincipal(deployer);
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            mintTokens(deployer, tenant.address, 10000),
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            createTokenProperty(deployer, tokenPrincipal(deployer), 1500, 3000),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            tokenCall(deployer, 'accept-lease-token', 1, tenant),
+            fundAllowance(tenant, 1, 3000, 1500),
+            Tx.contractCall(
+                'blockrent-contract',
+                'fund-rent-allowance-token',
+                [types.uint(1), types.uint(3000), types.uint(1500), types.principal(tokenPrincipal(deployer))],
+                tenant.address
+            ),
+            collectRent(keeper, 1, tenant.address),
+            collectRent(keeper, 1, tenant.address)
+        ]);
+        block.receipts.slice(0, 5).forEach(receipt => receipt.result.expectOk());
+        block.receipts[5].result.expectErr().expectUint(ERR_WRONG_PAYMENT_TOKEN);
+        block.receipts[6].result.expectOk().expectUint(3000);
+        block.receipts[7].result.expectOk();
+        block.receipts[8].result.expectErr().expectUint(ERR_RENT_NOT_DUE);
+        assertEquals(getTokenBalance(chain, deployer, tenant.address), 10000 - 3000 - 3000);
+        assertEquals(getTokenBalance(chain, deployer, contract), 3000 + 3000);
+
+        block = chain.mineBlock([
+            tokenCall(deployer, 'cancel-rent-allowance-token', 1, tenant)
+        ]);
+        block.receipts[0].result.expectOk().expectUint(1500);
+        assertEquals(getTokenBalance(chain, deployer, tenant.address), 10000 - 3000 - 1500);
+    },
+});
+
+Clarinet.test({
+    name: "Keepers earn a bounty from the treasury for assessing late fees",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const keeper = accounts.get('wallet_3')!;
+        const startDate = setupStartedLease(chain, deployer, tenant);
+
+        let block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'set-keeper-bounty', [types.uint(2)], keeper.address),
+            Tx.contractCall('blockrent-contract', 'set-keeper-bounty', [types.uint(1000001)], deployer.address),
+            Tx.contractCall('blockrent-contract', 'set-keeper-bounty', [types.uint(2)], deployer.address),
+            // Underpaying the first period leaves it overdue and 2 in escrow fees for the treasury
+            payRent(tenant, 1, 1000)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_NOT_ADMIN);
+        block.receipts[1].result.expectErr().expectUint(ERR_INVALID_AMOUNT);
+        block.receipts[2].result.expectOk().expectUint(2);
+        readOnly(chain, deployer, 'get-keeper-bounty', []).expectUint(2);
+        readOnly(chain, deployer, 'get-treasury-balance', []).expectUint(2);
+
+        const keeperBefore = getStxBalance(chain, keeper.address);
+        chain.mineEmptyBlockUntil(startDate + 5 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(1)], keeper.address),
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(1)], keeper.address)
+        ]);
+        const first = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(first['late-fees'], types.uint(35));
+        assertEquals(first['bounty'], types.uint(2));
+        // A repeat call that assesses nothing new earns nothing
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['bounty'], types.uint(0));
+        assertEquals(getStxBalance(chain, keeper.address), keeperBefore + 2);
+        readOnly(chain, deployer, 'get-treasury-balance', []).expectUint(0);
+
+        // Fees still rise, but an empty treasury pays no bounty
+        chain.mineEmptyBlockUntil(startDate + 6 * BLOCKS_PER_DAY + BLOCKS_PER_DAY / 2);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(1)], keeper.address)
+        ]);
+        const second = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(second['late-fees'], types.uint(42));
+        assertEquals(second['bounty'], types.uint(0));
+        assertEquals(getStxBalance(chain, keeper.address), keeperBefore + 2);
+    },
+});
+
+// Test Suite 30: Yield Vault
+const vaultPrincipal = (deployer: Account) => `${deployer.address}.mock-vault`;
+
+const setYieldVault = (admin: Account, vault: string | null, ownerShare: number) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'set-yield-vault',
+        [vault ? types.some(types.principal(vault)) : types.none(), types.uint(ownerShare)],
+        admin.address
+    );
+};
+
+const enableYield = (owner: Account, leaseId: number) => {
+    return Tx.contractCall('blockrent-contract', 'enable-lease-yield', [types.uint(leaseId)], owner.address);
+};
+
+const vaultCall = (deployer: Account, method: string, leaseId: number, caller: Account) => {
+    return Tx.contractCall('blockrent-contract', method, [types.uint(leaseId), types.principal(vaultPrincipal(deployer))], caller.address);
+};
+
+// The mock vault's owner pays yield into the contract's position for the lease
+const addYield = (deployer: Account, leaseId: number, amount: number) => {
+    return Tx.contractCall(
+        'mock-vault',
+        'add-yield',
+        [types.principal(contractPrincipal(deployer)), types.uint(leaseId), types.uint(amount)],
+        deployer.address
+    );
+};
+
+Clarinet.test({
+    name: "Leases opt in to the yield vault before any tenant accepts",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "1 High St", 1500, 3000, "First"),
+            createTestProperty(deployer, "2 High St", 1500, 3000, "Second"),
+            approveToken(deployer, tokenPrincipal(deployer), true),
+            createTokenProperty(deployer, tokenPrincipal(deployer), 1500, 3000),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            createTestLease(deployer, 2, tenant.address, 100, 200),
+            createTestLease(deployer, 3, tenant.address, 100, 200),
+            enableYield(deployer, 1),
+            setYieldVault(tenant, vaultPrincipal(deployer), 2000),
+            setYieldVault(deployer, vaultPrincipal(deployer), 10001),
+            setYieldVault(deployer, vaultPrincipal(deployer), 2000)
+        ]);
+        block.receipts.slice(0, 7).forEach(receipt => receipt.result.expectOk());
+        block.receipts[7].result.expectErr().expectUint(ERR_INVALID_VAULT);
+        block.receipts[8].result.expectErr().expectUint(ERR_NOT_ADMIN);
+        block.receipts[9].result.expectErr().expectUint(ERR_INVALID_SHARES);
+        block.receipts[10].result.expectOk();
+
+        block = chain.mineBlock([
+            acceptTestLease(tenant, 2),
+            enableYield(tenant, 1),
+            enableYield(deployer, 1),
+            enableYield(deployer, 2),
+            enableYield(deployer, 3),
+            vaultCall(deployer, 'deposit-to-vault', 1, tenant),
+            vaultCall(deployer, 'deposit-to-vault', 2, tenant)
+        ]);
+        block.receipts[0].result.expectOk();
+        block.receipts[1].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[2].result.expectOk().expectPrincipal(vaultPrincipal(deployer));
+        block.receipts[3].result.expectErr().expectUint(ERR_LEASE_NOT_PENDING);
+        block.receipts[4].result.expectErr().expectUint(ERR_WRONG_PAYMENT_TOKEN);
+        block.receipts[5].result.expectErr().expectUint(ERR_LEASE_NOT_ACTIVE);
+        block.receipts[6].result.expectErr().expectUint(ERR_INVALID_VAULT);
+
+        // A later change of vault or split leaves the agreed terms in place
+        block = chain.mineBlock([setYieldVault(deployer, null, 5000)]);
+        block.receipts[0].result.expectOk();
+        const terms = readOnly(chain, deployer, 'get-lease-yield', [types.uint(1)]).expectSome().expectTuple();
+        assertEquals(terms['vault'], vaultPrincipal(deployer));
+        assertEquals(terms['owner-share'], types.uint(2000));
+        terms['deposit'].expectNone();
+        readOnly(chain, deployer, 'get-lease-yield', [types.uint(2)]).expectNone();
+    },
+});
+
+Clarinet.test({
+    name: "Vaulted deposits come back in full at settlement with the yield split by the agreed ratio",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const keeper = accounts.get('wallet_3')!;
+        const contract = contractPrincipal(deployer);
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            setYieldVault(deployer, vaultPrincipal(deployer), 2000),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, startDate, startDate + 8640),
+            enableYield(deployer, 1),
+            acceptTestLease(tenant, 1),
+            payRent(tenant, 1, 1500),
+            vaultCall(deployer, 'deposit-to-vault', 1, keeper),
+            vaultCall(deployer, 'deposit-to-vault', 1, keeper),
+            addYield(deployer, 1, 1000),
+            vaultCall(deployer, 'redeem-from-vault', 1, keeper)
+        ]);
+        block.receipts.slice(0, 6).forEach(receipt => receipt.result.expectOk());
+        block.receipts[6].result.expectOk().expectUint(3000);
+        block.receipts[7].result.expectErr().expectUint(ERR_DEPOSIT_IN_VAULT);
+        block.receipts[8].result.expectOk();
+        block.receipts[9].result.expectErr().expectUint(ERR_LEASE_NOT_ENDED);
+        assertEquals(getStxBalance(chain, contract), 1500);
+        assertEquals(getStxBalance(chain, vaultPrincipal(deployer)), 3000 + 1000);
+
+        // Nothing can be claimed while the deposit is still in the vault
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], tenant.address),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        block.receipts[1].result.expectErr().expectUint(ERR_DEPOSIT_IN_VAULT);
+
+        block = chain.mineBlock([
+            vaultCall(deployer, 'redeem-from-vault', 1, keeper),
+            vaultCall(deployer, 'redeem-from-vault', 1, keeper),
+            Tx.contractCall('blockrent-contract', 'withdraw-escrow', [types.uint(1)], deployer.address)
+        ]);
+        const redeemed = block.receipts[0].result.expectOk().expectTuple();
+        assertEquals(redeemed['amount'], types.uint(3000));
+        assertEquals(redeemed['owner-yield'], types.uint(200));
+        assertEquals(redeemed['tenant-yield'], types.uint(800));
+        block.receipts[1].result.expectErr().expectUint(ERR_DEPOSIT_NOT_IN_VAULT);
+        assertEquals(block.receipts[2].result.expectOk().expectTuple()['withdrawn'], types.uint(1497 + 200));
+        assertEquals(getStxBalance(chain, vaultPrincipal(deployer)), 0);
+
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address)
+        ]);
+        assertEquals(block.receipts[0].result.expectOk().expectTuple()['withdrawn'], types.uint(3000 + 800));
+        // Only the escrow fee is left behind
+        assertEquals(getStxBalance(chain, contract), 3);
+    },
+});
+
+Clarinet.test({
+    name: "A vaulted deposit is recovered in full after an emergency termination with no yield",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const contract = contractPrincipal(deployer);
+
+        let block = chain.mineBlock([
+            setYieldVault(deployer, vaultPrincipal(deployer), 2000),
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createTestLease(deployer, 1, tenant.address, 100, 200),
+            enableYield(deployer, 1),
+            acceptTestLease(tenant, 1),
+            vaultCall(deployer, 'deposit-to-vault', 1, tenant),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_OWNER_MOVE_IN)], deployer.address)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        chain.mineEmptyBlock(DEPOSIT_HOLD_BLOCKS);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address),
+            vaultCall(deployer, 'redeem-from-vault', 1, tenant),
+            Tx.contractCall('blockrent-contract', 'withdraw-tenant-refund', [types.uint(1)], tenant.address)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_DEPOSIT_IN_VAULT);
+        const redeemed = block.receipts[1].result.expectOk().expectTuple();
+        assertEquals(redeemed['owner-yield'], types.uint(0));
+        assertEquals(redeemed['tenant-yield'], types.uint(0));
+        assertEquals(block.receipts[2].result.expectOk().expectTuple()['withdrawn'], types.uint(3000 + 1500));
+        assertEquals(getStxBalance(chain, contract), 0);
+    },
+});
+
+// Test Suite 31: Reputation
+const getReputation = (chain: Chain, caller: Account, who: string) => {
+    return readOnly(chain, caller, 'get-reputation', [types.principal(who)]).expectTuple();
+};
+
+const rateLease = (rater: Account, leaseId: number, score: number) => {
+    return Tx.contractCall('blockrent-contract', 'rate-lease', [types.uint(leaseId), types.uint(score)], rater.address);
+};
+
+const setMinTenantScore = (caller: Account, propertyId: number, score: number, admitNewTenants: boolean) => {
+    return Tx.contractCall(
+        'blockrent-contract',
+        'set-min-tenant-score',
+        [types.uint(propertyId), types.uint(score), types.bool(admitNewTenants)],
+        caller.address
+    );
+};
+
+Clarinet.test({
+    name: "Payments, completed leases and terminations build each party's reputation",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const carol = accounts.get('wallet_3')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "1 High St", 1500, 3000, "First"),
+            createTestProperty(deployer, "2 High St", 1500, 3000, "Second"),
+            createTestProperty(deployer, "3 High St", 1500, 3000, "Third"),
+            createTestLease(deployer, 1, alice.address, startDate, startDate + 2 * RENT_PERIOD_BLOCKS),
+            createTestLease(deployer, 2, bob.address, startDate, startDate + 4 * RENT_PERIOD_BLOCKS),
+            createTestLease(deployer, 3, carol.address, 100, 200),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 2),
+            acceptTestLease(carol, 3),
+            payRent(alice, 1, 1500),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(3), types.uint(REASON_OWNER_MOVE_IN)], deployer.address)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        // Alice pays the second period two days late; Bob never pays and is terminated for arrears
+        chain.mineEmptyBlockUntil(startDate + RENT_PERIOD_BLOCKS + 2 * BLOCKS_PER_DAY + 10);
+        block = chain.mineBlock([
+            payRent(alice, 1, 1500),
+            Tx.contractCall('blockrent-contract', 'process-late-fees', [types.uint(2)], deployer.address)
+        ]);
+        block.receipts[0].result.expectOk();
+        assertEquals(block.receipts[1].result.expectOk().expectTuple()['status'], types.ascii("terminated"));
+
+        chain.mineEmptyBlockUntil(startDate + 2 * RENT_PERIOD_BLOCKS + 10);
+        block = chain.mineBlock([
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], alice.address)
+        ]);
+        block.receipts[0].result.expectOk();
+
+        const aliceReputation = getReputation(chain, deployer, alice.address);
+        assertEquals(aliceReputation['leases-completed'], types.uint(1));
+        assertEquals(aliceReputation['on-time-payments'], types.uint(1));
+        assertEquals(aliceReputation['late-payments'], types.uint(1));
+        assertEquals(aliceReputation['terminations'], types.uint(0));
+        assertEquals(aliceReputation['tenant-score'], types.uint(50));
+
+        // Both of Bob's periods had fallen overdue by the time he was terminated
+        const bobReputation = getReputation(chain, deployer, bob.address);
+        assertEquals(bobReputation['leases-completed'], types.uint(0));
+        assertEquals(bobReputation['late-payments'], types.uint(2));
+        assertEquals(bobReputation['terminations'], types.uint(1));
+        assertEquals(bobReputation['tenant-score'], types.uint(0));
+
+        // An owner who ends a lease at once is marked with the termination, apart from their record as a tenant
+        const ownerReputation = getReputation(chain, deployer, deployer.address);
+        assertEquals(ownerReputation['leases-completed'], types.uint(1));
+        assertEquals(ownerReputation['owner-terminations'], types.uint(1));
+        assertEquals(ownerReputation['terminations'], types.uint(0));
+        assertEquals(getReputation(chain, deployer, carol.address)['terminations'], types.uint(0));
+    },
+});
+
+Clarinet.test({
+    name: "Rulings that leave a party worse off than the settlement count as lost disputes",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const arbitrator = accounts.get('wallet_3')!;
+
+        // Alice is owed her whole deposit; Bob owes his first period's rent out of his
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            setDefaultArbitrator(deployer, arbitrator),
+            createTestProperty(deployer, "1 High St", 1500, 3000, "First"),
+            createTestProperty(deployer, "2 High St", 1500, 3000, "Second"),
+            createTestLease(deployer, 1, alice.address, 100, 200),
+            createTestLease(deployer, 2, bob.address, startDate, startDate + RENT_PERIOD_BLOCKS),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 2),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], alice.address),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(2)], bob.address),
+            openDispute(deployer, 1, "Damage"),
+            openDispute(bob, 2, "Rent already settled"),
+            resolveDispute(arbitrator, 1, 2000),
+            resolveDispute(arbitrator, 2, 2500)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        const aliceReputation = getReputation(chain, deployer, alice.address);
+        assertEquals(aliceReputation['disputes-lost'], types.uint(1));
+        assertEquals(getReputation(chain, deployer, bob.address)['disputes-lost'], types.uint(0));
+        const ownerReputation = getReputation(chain, deployer, deployer.address);
+        assertEquals(ownerReputation['owner-disputes-lost'], types.uint(1));
+        assertEquals(ownerReputation['disputes-lost'], types.uint(0));
+    },
+});
+
+Clarinet.test({
+    name: "An owner's emergency terminations stay out of their record as a tenant",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const tenant = accounts.get('wallet_1')!;
+        const landlord = accounts.get('wallet_5')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(landlord, "1 High St", 1500, 3000, "Landlord's flat"),
+            createTestLease(landlord, 1, tenant.address, 100, 100 + RENT_PERIOD_BLOCKS),
+            acceptTestLease(tenant, 1),
+            Tx.contractCall('blockrent-contract', 'emergency-terminate', [types.uint(1), types.uint(REASON_OWNER_MOVE_IN)], landlord.address)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+
+        const reputation = getReputation(chain, deployer, landlord.address);
+        assertEquals(reputation['owner-terminations'], types.uint(1));
+        assertEquals(reputation['terminations'], types.uint(0));
+        assertEquals(reputation['tenant-score'], types.uint(0));
+
+        // As a tenant the landlord has no history yet, so a property admitting new tenants takes them
+        block = chain.mineBlock([
+            createTestProperty(deployer, "2 High St", 1500, 3000, "Owner's flat"),
+            setMinTenantScore(deployer, 2, 50, true),
+            createTestLease(deployer, 2, landlord.address, 100, 100 + RENT_PERIOD_BLOCKS)
+        ]);
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+    },
+});
+
+Clarinet.test({
+    name: "Parties rate each other once after a lease ends",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const bob = accounts.get('wallet_2')!;
+        const stranger = accounts.get('wallet_3')!;
+
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "123 Main St", 1500, 3000, "Test property"),
+            createSharedLease(deployer, 1, [coTenant(alice, 5000), coTenant(bob, 5000)], 100, 200),
+            acceptTestLease(alice, 1),
+            acceptTestLease(bob, 1),
+            rateLease(alice, 1, 4),
+            Tx.contractCall('blockrent-contract', 'end-lease', [types.uint(1)], alice.address),
+            rateLease(stranger, 1, 4),
+            rateLease(alice, 1, 0),
+            rateLease(alice, 1, 6),
+            rateLease(alice, 1, 4),
+            rateLease(alice, 1, 5),
+            rateLease(bob, 1, 2),
+            rateLease(deployer, 1, 5)
+        ]);
+        block.receipts[4].result.expectErr().expectUint(ERR_LEASE_NOT_ENDED);
+        block.receipts[5].result.expectOk();
+        block.receipts[6].result.expectErr().expectUint(ERR_NOT_LEASE_PARTY);
+        block.receipts[7].result.expectErr().expectUint(ERR_INVALID_RATING);
+        block.receipts[8].result.expectErr().expectUint(ERR_INVALID_RATING);
+        block.receipts[9].result.expectOk().expectUint(4);
+        block.receipts[10].result.expectErr().expectUint(ERR_ALREADY_RATED);
+        block.receipts[11].result.expectOk();
+        block.receipts[12].result.expectOk();
+
+        const ownerReputation = getReputation(chain, deployer, deployer.address);
+        assertEquals(ownerReputation['rating-total'], types.uint(4 + 2));
+        assertEquals(ownerReputation['rating-count'], types.uint(2));
+
+        // The owner's one rating covers every co-tenant
+        [alice, bob].forEach(tenant => {
+            const reputation = getReputation(chain, deployer, tenant.address);
+            assertEquals(reputation['rating-total'], types.uint(5));
+            assertEquals(reputation['rating-count'], types.uint(1));
+        });
+        const rating = readOnly(chain, deployer, 'get-lease-rating', [types.uint(1), types.principal(bob.address)]).expectSome().expectTuple();
+        assertEquals(rating['score'], types.uint(2));
+    },
+});
+
+Clarinet.test({
+    name: "Owners can require a minimum tenant score for new leases",
+    async fn(chain: Chain, accounts: Map<string, Account>) {
+        const deployer = accounts.get('deployer')!;
+        const alice = accounts.get('wallet_1')!;
+        const stranger = accounts.get('wallet_2')!;
+        const newcomer = accounts.get('wallet_3')!;
+
+        const startDate = chain.blockHeight + 1;
+        let block = chain.mineBlock([
+            createTestProperty(deployer, "1 High St", 1500, 3000, "First"),
+            createTestProperty(deployer, "2 High St", 1500, 3000, "Second"),
+            createTestProperty(deployer, "3 High St", 1500, 3000, "Third"),
+            createTestProperty(deployer, "4 High St", 1500, 3000, "Fourth"),
+            createTestLease(deployer, 1, alice.address, startDate, startDate + 8 * RENT_PERIOD_BLOCKS),
+            acceptTestLease(alice, 1),
+            setMinTenantScore(stranger, 2, 50, true),
+            setMinTenantScore(deployer, 2, 101, true),
+            setMinTenantScore(deployer, 2, 50, true),
+            setMinTenantScore(deployer, 3, 50, false)
+        ]);
+        block.receipts.slice(0, 6).forEach(receipt => receipt.result.expectOk());
+        block.receipts[6].result.expectErr().expectUint(ERR_NOT_PROPERTY_OWNER);
+        block.receipts[7].result.expectErr().expectUint(ERR_INVALID_AMOUNT);
+        block.receipts[8].result.expectOk().expectUint(50);
+        block.receipts[9].result.expectOk().expectUint(50);
+        const requirement = readOnly(chain, deployer, 'get-property-min-tenant-score', [types.uint(2)]).expectTuple();
+        assertEquals(requirement['min-score'], types.uint(50));
+        assertEquals(requirement['admit-new-tenants'], types.bool(true));
+
+        // Alice pays her first period two days late, leaving her a score of 0
+        chain.mineEmptyBlockUntil(startDate + 2 * BLOCKS_PER_DAY + 10);
+        block = chain.mineBlock([payRent(alice, 1, 1500)]);
+        block.receipts[0].result.expectOk();
+        assertEquals(getReputation(chain, deployer, alice.address)['tenant-score'], types.uint(0));
+
+        // Small payments that complete no billing period earn no marks
+        block = chain.mineBlock(Array.from({ length: 9 }, () => payRent(alice, 1, 1)));
+        block.receipts.forEach(receipt => receipt.result.expectOk());
+        const aliceReputation = getReputation(chain, deployer, alice.address);
+        assertEquals(aliceReputation['on-time-payments'], types.uint(0));
+        assertEquals(aliceReputation['late-payments'], types.uint(1));
+        assertEquals(aliceReputation['tenant-score'], types.uint(0));
+
+        // A newcomer scores 0 too, and qualifies only where the owner admits new tenants
+        assertEquals(getReputation(chain, deployer, newcomer.address)['tenant-score'], types.uint(0));
+        block = chain.mineBlock([
+            createTestLease(deployer, 2, alice.address, 10000, 20000),
+            createSharedLease(deployer, 2, [coTenant(newcomer, 5000), coTenant(alice, 5000)], 10000, 20000),
+            createTestLease(deployer, 3, newcomer.address, 10000, 20000),
+            createTestLease(deployer, 2, newcomer.address, 10000, 20000),
+            createTestLease(deployer, 4, alice.address, 10000, 20000)
+        ]);
+        block.receipts[0].result.expectErr().expectUint(ERR_TENANT_SCORE_TOO_LOW);
+        block.receipts[1].result.expectErr().expectUint(ERR_TENANT_SCORE_TOO_LOW);
+        block.receipts[2].result.expectErr().expectUint(ERR_TENANT_SCORE_TOO_LOW);
+        block.receipts[3].result.expectOk();
+        block.receipts[4].result.expectOk();
+    },
+});